@@ -0,0 +1,209 @@
+import { describe, expect, test } from "bun:test";
+import type {
+  Balance,
+  ExcludedHolder,
+  IndexerContext,
+  LPPosition,
+  Transfer,
+} from "./types";
+import { drawFromHolders, snapshotTimeWeighted } from "./api";
+import { createMemoryIndexStore } from "./store";
+import { sqrtWeighting } from "./weighting";
+import { ConfigurationError } from "./errors";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+const address = (i: number) => `0x${i.toString(16).padStart(40, "0")}`;
+
+let logIndex = 0;
+const transfer = (
+  from: string,
+  to: string,
+  value: bigint,
+  blockNumber: number
+): Transfer => ({
+  blockNumber,
+  tokenAddress: TOKEN,
+  from,
+  to,
+  value,
+  transactionHash: `0x${(++logIndex).toString(16).padStart(64, "0")}`,
+  logIndex,
+});
+
+// Serves transfers of an 18 decimals token at chain head 1000.
+const mockContext = (transfers: Transfer[]) =>
+  ({
+    provider: {
+      getBlock: async () => ({ number: 1000n }),
+      getTransfers: async (request: { fromBlock: number; toBlock: number }) =>
+        transfers.filter(
+          (t) =>
+            t.blockNumber >= request.fromBlock &&
+            t.blockNumber <= request.toBlock
+        ),
+      multicall: async ({ contracts }: { contracts: unknown[] }) =>
+        contracts.map(() => ({ status: "success", result: 18 })),
+    },
+    store: createMemoryIndexStore(),
+    tokens: [{ address: TOKEN }],
+    custodians: [],
+  } as unknown as IndexerContext);
+
+const balancesOf = (
+  holders: Awaited<ReturnType<typeof snapshotTimeWeighted>>
+) =>
+  holders.map((holder) => [holder.holderAddress, holder.balances[0].balance]);
+
+describe("snapshotTimeWeighted", () => {
+  test("averages each balance over the blocks it was held in the window", async () => {
+    const ctx = mockContext([
+      // 1 holds 100 before the window and sends 2 40 halfway through it.
+      transfer(ZERO, address(1), 100n, 5),
+      transfer(address(1), address(2), 40n, 15),
+      // 3 holds nothing during the window, 4 only receives after it.
+      transfer(ZERO, address(3), 50n, 2),
+      transfer(address(3), ZERO, 50n, 8),
+      transfer(ZERO, address(4), 10n, 25),
+    ]);
+
+    expect(balancesOf(await snapshotTimeWeighted(ctx, 10, 19, false))).toEqual([
+      [address(1), 80n],
+      [address(2), 20n],
+    ]);
+  });
+
+  test("counts a balance received in the last block for that block only", async () => {
+    const ctx = mockContext([transfer(ZERO, address(1), 100n, 19)]);
+
+    expect(balancesOf(await snapshotTimeWeighted(ctx, 10, 19, false))).toEqual([
+      [address(1), 10n],
+    ]);
+  });
+
+  test("rejects a window that ends before it starts", async () => {
+    await expect(
+      snapshotTimeWeighted(mockContext([]), 20, 10, false)
+    ).rejects.toThrow(ConfigurationError);
+  });
+});
+
+const reasonsOf = (excluded: ExcludedHolder[]) =>
+  excluded.map((entry) => [entry.holderAddress, entry.reason]);
+
+describe("drawFromHolders", () => {
+  const ether = 10n ** 18n;
+  const position = (inRange: boolean): LPPosition => ({
+    source: "uniswap-v3",
+    pool: "0x00000000000000000000000000000000000000bb",
+    tokenId: 1n,
+    liquidity: 1000n,
+    amount: 10n * ether,
+    fees: 0n,
+    inRange,
+    activeLiquidityShare: inRange ? 0.5 : 0,
+  });
+  const lpHolder = (
+    i: number,
+    balance: bigint,
+    lpPositions?: LPPosition[]
+  ): Balance => ({
+    holderAddress: address(i),
+    balances: [
+      {
+        tokenAddress: TOKEN,
+        balance,
+        lpBalance: 10n * ether,
+        lpFees: 0n,
+        lpPositions,
+        decimals: 18,
+      },
+    ],
+  });
+
+  test("weighs positions by their range status", async () => {
+    const holders: Balance[] & { excluded: ExcludedHolder[] } = Object.assign(
+      [
+        lpHolder(1, 0n, [position(true)]),
+        lpHolder(2, 0n, [position(false)]),
+        // Without positions, LP amounts count as in range.
+        lpHolder(3, ether),
+      ],
+      { excluded: [] }
+    );
+    const winners = await drawFromHolders(
+      {} as IndexerContext,
+      10,
+      holders,
+      { inRange: 2, outOfRange: 0.5 },
+      3
+    );
+
+    expect(winners.map((winner) => [winner.address, winner.weight])).toEqual([
+      [address(3), 21],
+      [address(1), 20],
+      [address(2), 5],
+    ]);
+  });
+
+  test("weighs each holder's multiplied amounts with the strategy", async () => {
+    const holders = Object.assign(
+      [lpHolder(1, 6n * ether), lpHolder(2, 0n, [position(false)])],
+      { excluded: [] }
+    );
+    const winners = await drawFromHolders(
+      {} as IndexerContext,
+      10,
+      holders,
+      0,
+      2,
+      { weighting: sqrtWeighting(), tokenMultipliers: { [TOKEN]: 6 } }
+    );
+
+    // 2 only provides liquidity, which lpWeight 0 leaves out, so never wins.
+    expect(winners.map((winner) => [winner.address, winner.weight])).toEqual([
+      [address(1), 6],
+    ]);
+    expect(winners.weighting).toEqual({
+      name: "sqrt",
+      tokenMultipliers: { [TOKEN]: 6 },
+    });
+  });
+
+  test("sits out and down-weights recent winners", async () => {
+    const holders = Object.assign(
+      [1, 2, 3].map((i) => lpHolder(i, 4n * ether)),
+      { excluded: [] }
+    );
+    const winner = (i: number) => ({ address: address(i) });
+    const winners = await drawFromHolders(
+      {} as IndexerContext,
+      10,
+      holders,
+      0,
+      3,
+      {
+        history: {
+          draws: [
+            { blockNumber: 1, drawnAt: "", winners: [winner(2)] },
+            { blockNumber: 2, drawnAt: "", winners: [winner(1)] },
+          ],
+        },
+        recentWinners: {
+          excludeRounds: 1,
+          downWeightRounds: 1,
+          downWeight: 0.25,
+        },
+      }
+    );
+
+    expect(winners.map((w) => [w.address, w.weight])).toEqual([
+      [address(3), 4],
+      [address(2), 1],
+    ]);
+    expect(reasonsOf(winners.excluded)).toEqual([
+      [address(1), "Won a recent draw"],
+    ]);
+  });
+});
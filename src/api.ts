@@ -1,20 +1,83 @@
-import {
-  Alchemy,
-  Network,
-  AssetTransfersCategory,
-  type AssetTransfersResponse,
-} from "alchemy-sdk";
-import type { Token, Balance, Winner, Slot0Data, LPHolder } from "./types";
-import { createPublicClient, http, parseAbiItem, type Hex } from "viem";
+import type {
+  Token,
+  Balance,
+  Winner,
+  DrawOptions,
+  DrawProof,
+  Slot0Data,
+  LPHolder,
+  Transfer,
+  IndexerContext,
+  LPMint,
+  ExcludedHolder,
+  LPPosition,
+  LPWeight,
+  WeightingRecord,
+  TokenPrice,
+} from "./types";
+import { formatUnits, parseAbiItem, type Hex } from "viem";
 import { Token as UniToken } from "@uniswap/sdk-core";
 import { Pool, Position } from "@uniswap/v3-sdk";
-import { base } from "viem/chains";
+import { clampToChainTip, getChainId, getPositionManager } from "./chains";
+import { applyExclusions } from "./exclusions";
+import { getUncollectedFees } from "./fees";
+import {
+  resolveCustodiedPositions,
+  resolveCustodiedShares,
+} from "./custodians";
+import { findTokenPrice, holderValue, unitPrice } from "./prices";
+import {
+  describeWeighting,
+  getTokenMultiplier,
+  linearWeighting,
+  recordWeighting,
+} from "./weighting";
+import {
+  reportFailedTokenId,
+  reportMissingSlot0,
+  reportSkippedTransaction,
+  reportUnscannedRange,
+} from "./report";
+import { ConfigurationError } from "./errors";
+import {
+  lpMintsStream,
+  replayPositionOwnership,
+  syncPositionTransfers,
+} from "./positions";
+import {
+  getERC20LPBalances,
+  getERC20LPPools,
+  getV3Pools,
+  getV4LPBalances,
+  getV4Pools,
+  mergeLPBalances,
+  syncV4Mints,
+} from "./liquidity";
+import {
+  DRAW_ALGORITHM_VERSION,
+  assignTiers,
+  canonicalizeEntrants,
+  drawWithSeed,
+  resolveDrawSeed,
+  sampleWithoutReplacement,
+  validateTierWinners,
+} from "./draw";
+import { recentWinnerMultipliers } from "./history";
+import { clusterHolders } from "./clusters";
+import {
+  getAllTransfers,
+  getTokenDecimals,
+  replayTransfers,
+} from "./transfers";
+import {
+  findTokenBalance,
+  snapshotTokenCells,
+  snapshotTokenHeaders,
+  tokenLabel,
+} from "./tokens";
+import { lockStreams } from "./store";
 import * as fs from "fs";
 
-const DELAY_SHORT = 75;
-const DELAY_LONG = 250;
-const DELAY_ERROR = 500;
-
 const POOL_ABI = [
   {
     name: "slot0",
@@ -31,18 +94,19 @@ const POOL_ABI = [
       { name: "unlocked", type: "bool" },
     ],
   },
+  {
+    name: "liquidity",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint128" }],
+  },
 ] as const;
 
 const MINT_EVENT = parseAbiItem(
   "event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)"
 );
 
-const TRANSFER_EVENT = parseAbiItem(
-  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
-);
-
-const POSITION_MANAGER = "0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1";
-
 const POSITION_MANAGER_ABI = [
   {
     name: "positions",
@@ -66,130 +130,43 @@ const POSITION_MANAGER_ABI = [
   },
 ] as const;
 
-const REVERT_AUTOCOMPOUNDER =
-  "0x83681C14770b44361e21Faf91D8325423365eA5C".toLowerCase();
-
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-const getAlchemy = async (apiKey: string) => {
-  const config = {
-    apiKey: apiKey,
-    network: Network.BASE_MAINNET,
-  };
-  const alchemy = new Alchemy(config);
-  return alchemy;
-};
-
-export const getAllTransfers = async (
-  apiKey: string,
-  blockNumber: number,
-  tokens: Token[],
-  logging?: boolean
-) => {
-  if (logging) console.time("getAllTransfers");
-  const alchemy = await getAlchemy(apiKey);
-  const tokenAddresses = tokens.map((token) => token.address);
-
-  let allTransfers: any[] = [];
-  let pageKey = undefined;
-  const MAX_RETRIES = 3;
-
-  while (true) {
-    let retries = 0;
-    let success = false;
-
-    while (!success && retries < MAX_RETRIES) {
-      try {
-        const transfers: AssetTransfersResponse =
-          await alchemy.core.getAssetTransfers({
-            contractAddresses: tokenAddresses,
-            excludeZeroValue: true,
-            category: [AssetTransfersCategory.ERC20],
-            pageKey: pageKey,
-          });
-
-        if (transfers.transfers.length === 0) break;
-
-        allTransfers = [...allTransfers, ...transfers.transfers];
-
-        const lowestBlockInPage = Math.min(
-          ...transfers.transfers.map((t) => Number(t.blockNum))
-        );
-
-        if (lowestBlockInPage <= blockNumber && transfers.pageKey) {
-          pageKey = transfers.pageKey;
-          await delay(DELAY_LONG);
-        } else {
-          break;
-        }
-
-        success = true;
-      } catch (error) {
-        retries++;
-        if (retries === MAX_RETRIES) {
-          throw new Error(
-            `Failed to fetch transfers after ${MAX_RETRIES} attempts: ${error}`
-          );
-        }
-        await delay(DELAY_ERROR);
-      }
+const syncLPMints = (
+  ctx: IndexerContext,
+  poolAddress: string,
+  blockNumber: number
+) =>
+  lockStreams(ctx.store, [lpMintsStream(poolAddress)], async () => {
+    const { provider: client, store } = ctx;
+    const head = store.head(lpMintsStream(poolAddress));
+    if (head !== undefined && head >= blockNumber) return;
+
+    const fromBlock = head === undefined ? 0 : head + 1;
+    const scannedTo = await clampToChainTip(ctx, blockNumber);
+    if (fromBlock > scannedTo) return;
+
+    let mintLogs;
+    try {
+      mintLogs = await client.getLogs({
+        address: poolAddress as Hex,
+        events: [MINT_EVENT],
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(scannedTo),
+      });
+    } catch (error) {
+      reportUnscannedRange(ctx, poolAddress, fromBlock, scannedTo, error);
+      return;
     }
 
-    if (!success) break;
-  }
-
-  const filteredTransfers = allTransfers.filter(
-    (transfer) => Number(transfer.blockNum) <= blockNumber
-  );
-
-  if (logging) console.timeEnd("getAllTransfers");
-  return { transfers: filteredTransfers };
-};
-
-export const getAllLPHolders = async (
-  apiKey: string,
-  blockNumber: number,
-  tokens: Token[],
-  logging?: boolean
-): Promise<LPHolder[]> => {
-  if (logging) console.time("getAllLPHolders");
-  const client = createPublicClient({
-    chain: base,
-    transport: http(`https://base-mainnet.g.alchemy.com/v2/${apiKey}`, {
-      fetchOptions: {
-        headers: {
-          "Accept-Encoding": "gzip",
-          "Content-Type": "application/json",
-        },
-      },
-    }),
-  });
-
-  const tokenIdSet = new Set<bigint>();
-  let firstMintBlock = BigInt(blockNumber);
-
-  for (const token of tokens) {
-    let success = false;
-    let retries = 0;
-
-    while (!success && retries < 3) {
-      try {
-        const mintLogs = await client.getLogs({
-          address: token.lpAddress as Hex,
-          events: [MINT_EVENT],
-          fromBlock: 0n,
-          toBlock: BigInt(blockNumber),
-        });
-
-        await delay(DELAY_LONG);
-
-        for (const mintLog of mintLogs) {
-          if (!mintLog.transactionHash) continue;
-
-          firstMintBlock =
-            mintLog.blockNumber && mintLog.blockNumber < firstMintBlock
-              ? mintLog.blockNumber
-              : firstMintBlock;
+    // Receipts are fetched in parallel, as far as the provider's scheduler
+    // allows. Mints from a transaction whose receipt failed are not persisted,
+    // so the head stops right before it and the next run retries it.
+    const positionManager = getPositionManager(ctx).toLowerCase();
+    const results = await Promise.all(
+      mintLogs.map(
+        async (
+          mintLog
+        ): Promise<LPMint | { failedBlock: number } | undefined> => {
+          if (!mintLog.transactionHash) return undefined;
 
           try {
             const receipt = await client.getTransactionReceipt({
@@ -198,157 +175,248 @@ export const getAllLPHolders = async (
 
             const transferLog = receipt.logs.find(
               (log) =>
-                log.address.toLowerCase() === POSITION_MANAGER.toLowerCase() &&
+                log.address.toLowerCase() === positionManager &&
                 log.topics[0] ===
                   "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef" &&
                 log.topics[1] ===
                   "0x0000000000000000000000000000000000000000000000000000000000000000"
             );
 
-            if (!transferLog?.topics[3]) continue;
+            if (!transferLog?.topics[3]) return undefined;
 
-            const tokenId = BigInt(transferLog.topics[3]);
-            tokenIdSet.add(tokenId);
+            return {
+              tokenId: BigInt(transferLog.topics[3]),
+              blockNumber: Number(mintLog.blockNumber),
+            };
           } catch (error) {
-            console.error(
-              `Error processing transaction ${mintLog.transactionHash}:`,
-              error
-            );
+            reportSkippedTransaction(ctx, mintLog.transactionHash, error);
+            return { failedBlock: Number(mintLog.blockNumber) };
           }
-
-          await delay(DELAY_SHORT);
         }
+      )
+    );
 
-        success = true;
-      } catch (error) {
-        retries++;
-        await delay(DELAY_ERROR);
-
-        if (retries === 3) {
-          console.error(
-            `Failed to fetch events for LP ${token.lpAddress}:`,
-            error
-          );
-          break;
-        }
+    const mints: LPMint[] = [];
+    let failedBlock: number | undefined;
+    for (const result of results) {
+      if (!result) continue;
+      if ("failedBlock" in result) {
+        failedBlock = Math.min(failedBlock ?? Infinity, result.failedBlock);
+      } else {
+        mints.push(result);
       }
     }
 
-    await delay(DELAY_LONG);
-  }
-
-  const holders = new Map<string, Set<bigint>>();
-  const BLOCK_INCREMENT = 2000n;
+    if (failedBlock === undefined) {
+      store.append(lpMintsStream(poolAddress), scannedTo, mints);
+    } else if (failedBlock - 1 > (head ?? -1)) {
+      store.append(
+        lpMintsStream(poolAddress),
+        failedBlock - 1,
+        mints.filter((mint) => mint.blockNumber < failedBlock!)
+      );
+    }
+  });
 
-  try {
-    let currentBlock = firstMintBlock;
-    const targetBlock = BigInt(blockNumber);
+export const getAllLPHolders = async (
+  ctx: IndexerContext,
+  blockNumber: number
+): Promise<LPHolder[]> => {
+  const { logging } = ctx;
+  if (logging) console.time("getAllLPHolders");
 
-    while (currentBlock <= targetBlock) {
-      const endBlock =
-        currentBlock + BLOCK_INCREMENT > targetBlock
-          ? targetBlock
-          : currentBlock + BLOCK_INCREMENT;
+  const poolAddresses = getV3Pools(ctx.tokens).map((pool) => pool.poolAddress);
 
-      const transferLogs = await client.getLogs({
-        address: POSITION_MANAGER as Hex,
-        events: [TRANSFER_EVENT],
-        fromBlock: currentBlock,
-        toBlock: endBlock,
-      });
+  for (const poolAddress of poolAddresses) {
+    await syncLPMints(ctx, poolAddress, blockNumber);
+  }
 
-      for (const log of transferLogs) {
-        if (!log.topics[3]) continue;
+  await syncPositionTransfers(
+    ctx,
+    blockNumber,
+    getPositionManager(ctx),
+    poolAddresses
+  );
 
-        const tokenId = BigInt(log.topics[3]);
+  const result = replayPositionOwnership(ctx, blockNumber, poolAddresses);
 
-        if (!tokenIdSet.has(tokenId)) continue;
+  if (logging) console.timeEnd("getAllLPHolders");
+  return result;
+};
 
-        const from = `0x${log.topics[1].slice(26)}`.toLowerCase();
-        const to = `0x${log.topics[2].slice(26)}`.toLowerCase();
+export const getAllLPBalances = async (
+  ctx: IndexerContext,
+  blockNumber: number
+) =>
+  applyExclusions(ctx, blockNumber, await collectLPBalances(ctx, blockNumber));
+
+const collectLPBalances = async (
+  ctx: IndexerContext,
+  blockNumber: number
+): Promise<Balance[]> =>
+  mergeLPBalances([
+    await collectV3LPBalances(ctx, blockNumber),
+    await collectERC20LPBalances(ctx, blockNumber),
+    await collectV4LPBalances(ctx, blockNumber),
+  ]);
 
-        if (holders.has(from)) {
-          holders.get(from)!.delete(tokenId);
-          if (holders.get(from)!.size === 0) {
-            holders.delete(from);
-          }
-        }
+// LP share holders come from the pair's own Transfer events, indexed like
+// any configured token.
+const collectERC20LPBalances = async (
+  ctx: IndexerContext,
+  blockNumber: number
+): Promise<Balance[]> => {
+  const pools = getERC20LPPools(ctx.tokens);
+  if (pools.length === 0) return [];
 
-        if (to !== "0x0000000000000000000000000000000000000000") {
-          if (!holders.has(to)) {
-            holders.set(to, new Set());
-          }
-          holders.get(to)!.add(tokenId);
-        }
-      }
+  const pairTokens = pools.map((pool) => ({ address: pool.pairAddress }));
+  const transfers = await getAllTransfers(
+    { ...ctx, tokens: pairTokens },
+    blockNumber
+  );
+  const { holderBalances } = replayTransfers(transfers.transfers, pairTokens);
+  const decimals = await getTokenDecimals(
+    ctx,
+    pools.map((pool) => pool.token.address)
+  );
 
-      currentBlock = endBlock + 1n;
-      await delay(DELAY_LONG);
+  const result: Balance[][] = [];
+  for (const pool of pools) {
+    const shares = new Map<string, bigint>();
+    for (const [holderAddress, balances] of holderBalances) {
+      const amount = balances.get(pool.pairAddress)?.balance ?? 0n;
+      if (amount > 0n) shares.set(holderAddress, amount);
     }
-  } catch (error) {
-    console.error("Error fetching transfer logs:", error);
+    result.push(
+      await getERC20LPBalances(
+        ctx,
+        blockNumber,
+        pool,
+        await resolveCustodiedShares(
+          ctx,
+          blockNumber,
+          pool.pairAddress,
+          shares
+        ),
+        decimals
+      )
+    );
   }
+  return mergeLPBalances(result);
+};
 
-  holders.delete(REVERT_AUTOCOMPOUNDER);
+const collectV4LPBalances = async (
+  ctx: IndexerContext,
+  blockNumber: number
+): Promise<Balance[]> => {
+  const pools = getV4Pools(ctx.tokens, getChainId(ctx));
+  if (pools.length === 0) return [];
 
-  const result: LPHolder[] = Array.from(holders.entries())
-    .map(([address, tokenIds]) => ({
-      address,
-      tokenIds: Array.from(tokenIds),
-    }))
-    .filter((holder) => holder.tokenIds.length > 0);
+  const decimals = await getTokenDecimals(
+    ctx,
+    pools.map((pool) => pool.token.address)
+  );
 
-  if (logging) console.timeEnd("getAllLPHolders");
-  return result;
+  for (const pool of pools) {
+    await syncV4Mints(ctx, pool, blockNumber);
+  }
+
+  const positionManagers = new Set(pools.map((pool) => pool.positionManager));
+  for (const positionManager of positionManagers) {
+    await syncPositionTransfers(
+      ctx,
+      blockNumber,
+      positionManager,
+      pools
+        .filter((pool) => pool.positionManager === positionManager)
+        .map((pool) => pool.poolId)
+    );
+  }
+
+  const result: Balance[][] = [];
+  for (const pool of pools) {
+    const holders = await resolveCustodiedPositions(
+      ctx,
+      blockNumber,
+      replayPositionOwnership(ctx, blockNumber, [pool.poolId]),
+      pool.positionManager
+    );
+    result.push(
+      await getV4LPBalances(ctx, blockNumber, pool, holders, decimals)
+    );
+  }
+  return mergeLPBalances(result);
 };
 
-export const getAllLPBalances = async (
-  apiKey: string,
-  blockNumber: number,
-  tokens: Token[],
-  logging?: boolean
+const collectV3LPBalances = async (
+  ctx: IndexerContext,
+  blockNumber: number
 ): Promise<Balance[]> => {
-  const client = createPublicClient({
-    chain: base,
-    transport: http(`https://base-mainnet.g.alchemy.com/v2/${apiKey}`, {
-      fetchOptions: {
-        headers: {
-          "Accept-Encoding": "gzip",
-          "Content-Type": "application/json",
-        },
-      },
-    }),
-  });
+  const { provider: client, tokens, logging } = ctx;
+  const pools = getV3Pools(tokens);
+  if (pools.length === 0) return [];
 
-  const lpHolders = await getAllLPHolders(apiKey, blockNumber, tokens, logging);
+  const lpHolders = await resolveCustodiedPositions(
+    ctx,
+    blockNumber,
+    await getAllLPHolders(ctx, blockNumber),
+    getPositionManager(ctx)
+  );
 
   if (logging) console.time("getAllLPBalances");
 
-  const slot0Calls = tokens.map((token) => ({
-    address: token.lpAddress as Hex,
-    abi: POOL_ABI,
-    functionName: "slot0",
-  }));
+  // Every position belongs to the pool it was minted in.
+  const poolByTokenId = new Map<bigint, (typeof pools)[number]>();
+  for (const pool of pools) {
+    for (const mint of ctx.store.read<LPMint>(
+      lpMintsStream(pool.poolAddress)
+    )) {
+      poolByTokenId.set(mint.tokenId, pool);
+    }
+  }
 
   const slot0Results = await client.multicall({
-    contracts: slot0Calls,
+    contracts: pools.map((pool) => ({
+      address: pool.poolAddress as Hex,
+      abi: POOL_ABI,
+      functionName: "slot0" as const,
+    })),
     blockNumber: BigInt(blockNumber),
   });
 
   const slot0Cache = new Map<string, Slot0Data>();
-  tokens.forEach((token, index) => {
+  pools.forEach((pool, index) => {
     const result = slot0Results[index];
     if (result.status === "success") {
-      slot0Cache.set(token.lpAddress, {
+      slot0Cache.set(pool.poolAddress, {
         sqrtPriceX96: result.result[0],
         tick: result.result[1],
       });
+    } else {
+      reportMissingSlot0(ctx, pool.poolAddress);
+    }
+  });
+
+  const liquidityResults = await client.multicall({
+    contracts: pools.map((pool) => ({
+      address: pool.poolAddress as Hex,
+      abi: POOL_ABI,
+      functionName: "liquidity" as const,
+    })),
+    blockNumber: BigInt(blockNumber),
+  });
+
+  const activeLiquidity = new Map<string, bigint>();
+  pools.forEach((pool, index) => {
+    const result = liquidityResults[index];
+    if (result.status === "success") {
+      activeLiquidity.set(pool.poolAddress, result.result);
     }
   });
 
   const positionCalls = lpHolders.flatMap((holder) =>
     holder.tokenIds.map((tokenId) => ({
-      address: POSITION_MANAGER as Hex,
+      address: getPositionManager(ctx) as Hex,
       abi: POSITION_MANAGER_ABI,
       functionName: "positions",
       args: [tokenId],
@@ -374,14 +442,78 @@ export const getAllLPBalances = async (
     );
   }
 
+  const pairAddresses = positionResults.flatMap((result) =>
+    result.status === "success" ? [result.result[2], result.result[3]] : []
+  );
+  const decimals = await getTokenDecimals(ctx, [
+    ...tokens.map((token) => token.address),
+    ...pairAddresses,
+  ]);
+
+  const fees = new Map<bigint, { amount0: bigint; amount1: bigint }>();
+  if (ctx.includeLPFees) {
+    const feePositions = positionResults.flatMap((result) => {
+      if (result.status !== "success") return [];
+      const pool = poolByTokenId.get(result.tokenId);
+      const slot0 = pool && slot0Cache.get(pool.poolAddress);
+      if (!pool || !slot0) return [];
+
+      return [
+        {
+          tokenId: result.tokenId,
+          poolAddress: pool.poolAddress,
+          currentTick: slot0.tick,
+          tickLower: result.result[5],
+          tickUpper: result.result[6],
+          liquidity: result.result[7],
+          feeGrowthInside0LastX128: result.result[8],
+          feeGrowthInside1LastX128: result.result[9],
+          tokensOwed0: result.result[10],
+          tokensOwed1: result.result[11],
+        },
+      ];
+    });
+
+    const feeResults = await getUncollectedFees(ctx, blockNumber, feePositions);
+    feePositions.forEach((position, index) => {
+      const fee = feeResults[index];
+      if (fee) {
+        fees.set(position.tokenId, fee);
+      } else {
+        reportFailedTokenId(
+          ctx,
+          getPositionManager(ctx),
+          position.tokenId,
+          "Uncollected fees could not be read"
+        );
+      }
+    });
+  }
+
   const balances = new Map<
     string,
-    Map<string, { balance: number; lpBalance: number }>
+    Map<
+      string,
+      {
+        balance: bigint;
+        lpBalance: bigint;
+        lpFees: bigint;
+        lpPositions: LPPosition[];
+      }
+    >
   >();
 
   for (let i = 0; i < positionResults.length; i++) {
     const result = positionResults[i];
-    if (result.status !== "success") continue;
+    if (result.status !== "success") {
+      reportFailedTokenId(
+        ctx,
+        getPositionManager(ctx),
+        result.tokenId,
+        `positions() failed: ${result.error}`
+      );
+      continue;
+    }
 
     const position = {
       nonce: result.result[0],
@@ -398,20 +530,26 @@ export const getAllLPBalances = async (
       tokensOwed1: result.result[11],
     };
 
-    if (position.liquidity === 0n) continue;
+    const positionFees = fees.get(result.tokenId);
+    if (position.liquidity === 0n && !positionFees) continue;
 
-    const matchingToken = tokens.find(
-      (t) =>
-        t.address.toLowerCase() === position.token0.toLowerCase() ||
-        t.address.toLowerCase() === position.token1.toLowerCase()
-    );
-    if (!matchingToken) continue;
+    const matchingPool = poolByTokenId.get(result.tokenId);
+    if (!matchingPool) continue;
+    const matchingToken = matchingPool.token;
 
-    const slot0 = slot0Cache.get(matchingToken.lpAddress);
+    const slot0 = slot0Cache.get(matchingPool.poolAddress);
     if (!slot0) continue;
 
-    const token0 = new UniToken(base.id, position.token0, 18);
-    const token1 = new UniToken(base.id, position.token1, 18);
+    const token0 = new UniToken(
+      getChainId(ctx),
+      position.token0,
+      decimals.get(position.token0.toLowerCase())!
+    );
+    const token1 = new UniToken(
+      getChainId(ctx),
+      position.token1,
+      decimals.get(position.token1.toLowerCase())!
+    );
 
     const pool = new Pool(
       token0,
@@ -435,23 +573,49 @@ export const getAllLPBalances = async (
     }
     const holderBalances = balances.get(holderAddress)!;
 
-    if (matchingToken.address.toLowerCase() === position.token0.toLowerCase()) {
-      const amount = normalizeToEther(uniPosition.amount0.quotient.toString());
-      const existing =
-        holderBalances.get(matchingToken.address)?.lpBalance || 0;
-      holderBalances.set(matchingToken.address, {
-        balance: 0,
-        lpBalance: existing + amount,
-      });
-    } else {
-      const amount = normalizeToEther(uniPosition.amount1.quotient.toString());
-      const existing =
-        holderBalances.get(matchingToken.address)?.lpBalance || 0;
-      holderBalances.set(matchingToken.address, {
-        balance: 0,
-        lpBalance: existing + amount,
-      });
-    }
+    const existing = holderBalances.get(matchingToken.address) || {
+      balance: 0n,
+      lpBalance: 0n,
+      lpFees: 0n,
+      lpPositions: [],
+    };
+
+    const isToken0 =
+      matchingToken.address.toLowerCase() === position.token0.toLowerCase();
+    const amount = BigInt(
+      (isToken0 ? uniPosition.amount0 : uniPosition.amount1).quotient.toString()
+    );
+    const positionFeeAmount =
+      (isToken0 ? positionFees?.amount0 : positionFees?.amount1) ?? 0n;
+
+    // Only in-range liquidity is active, so only it earns a share of the pool.
+    const inRange =
+      position.tickLower <= slot0.tick && slot0.tick < position.tickUpper;
+    const poolLiquidity = activeLiquidity.get(matchingPool.poolAddress);
+
+    holderBalances.set(matchingToken.address, {
+      balance: 0n,
+      lpBalance: existing.lpBalance + amount,
+      lpFees: existing.lpFees + positionFeeAmount,
+      lpPositions: [
+        ...existing.lpPositions,
+        {
+          source: "uniswap-v3",
+          pool: matchingPool.poolAddress,
+          tokenId: result.tokenId,
+          tickLower: position.tickLower,
+          tickUpper: position.tickUpper,
+          liquidity: position.liquidity,
+          amount,
+          fees: positionFeeAmount,
+          inRange,
+          activeLiquidityShare:
+            inRange && poolLiquidity
+              ? Number((position.liquidity * 10n ** 18n) / poolLiquidity) / 1e18
+              : 0,
+        },
+      ],
+    });
   }
 
   const result: Balance[] = Array.from(balances.entries())
@@ -462,8 +626,11 @@ export const getAllLPBalances = async (
           tokenAddress,
           balance: amounts.balance,
           lpBalance: amounts.lpBalance,
+          lpFees: amounts.lpFees,
+          lpPositions: amounts.lpPositions,
+          decimals: decimals.get(tokenAddress.toLowerCase())!,
         }))
-        .filter((balance) => balance.lpBalance > 0),
+        .filter((balance) => balance.lpBalance > 0n || balance.lpFees > 0n),
     }))
     .filter((holder) => holder.balances.length > 0);
 
@@ -472,72 +639,21 @@ export const getAllLPBalances = async (
 };
 
 export const snapshotHolders = async (
-  apiKey: string,
+  ctx: IndexerContext,
   blockNumber: number,
-  tokens: Token[],
-  includeLPs: boolean,
-  logging?: boolean
+  includeLPs: boolean
 ) => {
-  const transfers = await getAllTransfers(apiKey, blockNumber, tokens, logging);
-  const holderBalances = new Map<
-    string,
-    Map<string, { balance: number; lpBalance: number }>
-  >();
+  const { tokens, logging } = ctx;
+  const transfers = await getAllTransfers(ctx, blockNumber);
 
   if (logging) console.time("snapshotHoldersTokens");
 
-  for (const token of tokens) {
-    const tokenTransfers = transfers.transfers
-      .filter(
-        (transfer) =>
-          transfer.rawContract.address.toLowerCase() ===
-          token.address.toLowerCase()
-      )
-      .sort((a, b) => Number(a.blockNum) - Number(b.blockNum));
-
-    for (const transfer of tokenTransfers) {
-      const amount = normalizeToEther(transfer.value);
-      const fromAddress = transfer.from;
-      const toAddress = transfer.to;
-
-      if (fromAddress !== "0x0000000000000000000000000000000000000000") {
-        if (!holderBalances.has(fromAddress)) {
-          holderBalances.set(fromAddress, new Map());
-        }
-        const senderBalances = holderBalances.get(fromAddress)!;
-        const currentBalance = senderBalances.get(token.address)?.balance || 0;
-
-        senderBalances.set(token.address, {
-          balance: Math.max(0, currentBalance - amount),
-          lpBalance: senderBalances.get(token.address)?.lpBalance || 0,
-        });
-      }
-
-      if (toAddress !== "0x0000000000000000000000000000000000000000") {
-        if (!holderBalances.has(toAddress)) {
-          holderBalances.set(toAddress, new Map());
-        }
-        const receiverBalances = holderBalances.get(toAddress)!;
-        const currentBalance =
-          receiverBalances.get(token.address)?.balance || 0;
-
-        receiverBalances.set(token.address, {
-          balance: currentBalance + amount,
-          lpBalance: receiverBalances.get(token.address)?.lpBalance || 0,
-        });
-      }
-    }
-  }
+  const { holderBalances } = replayTransfers(transfers.transfers, tokens);
 
   if (logging) console.timeEnd("snapshotHoldersTokens");
 
   if (includeLPs) {
-    const lpBalances = await getAllLPBalances(
-      apiKey,
-      blockNumber,
-      tokens,
-      logging
-    );
+    const lpBalances = await collectLPBalances(ctx, blockNumber);
 
     if (logging) console.time("snapshotHoldersLPs");
 
@@ -550,12 +666,15 @@ export const snapshotHolders = async (
 
       for (const balance of lpHolder.balances) {
         const existing = holderBalance.get(balance.tokenAddress) || {
-          balance: 0,
-          lpBalance: 0,
+          balance: 0n,
+          lpBalance: 0n,
+          lpFees: 0n,
         };
         holderBalance.set(balance.tokenAddress, {
           balance: existing.balance,
           lpBalance: balance.lpBalance,
+          lpFees: balance.lpFees,
+          lpPositions: balance.lpPositions,
         });
       }
     }
@@ -565,13 +684,6 @@ export const snapshotHolders = async (
 
   if (logging) console.time("snapshotHoldersSort");
 
-  const lpAddresses = new Set(
-    tokens.map((token) => token.lpAddress.toLowerCase())
-  );
-  lpAddresses.forEach((lpAddress) => {
-    holderBalances.delete(lpAddress);
-  });
-
   const result: Balance[] = Array.from(holderBalances.entries())
     .map(([holderAddress, tokenBalances]) => ({
       holderAddress,
@@ -580,105 +692,474 @@ export const snapshotHolders = async (
           tokenAddress,
           balance: amounts.balance,
           lpBalance: amounts.lpBalance,
+          lpFees: amounts.lpFees,
+          lpPositions: amounts.lpPositions,
+          decimals: transfers.decimals.get(tokenAddress.toLowerCase())!,
         }))
-        .filter((balance) => balance.balance > 0 || balance.lpBalance > 0),
+        .filter(
+          (balance) =>
+            balance.balance > 0n ||
+            balance.lpBalance > 0n ||
+            balance.lpFees > 0n
+        ),
     }))
     .filter((holder) => holder.balances.length > 0);
 
   if (logging) console.timeEnd("snapshotHoldersSort");
-  return result;
+  return applyExclusions(ctx, blockNumber, result);
 };
 
-function getWeightedRandomIndex(weights: number[]): number {
-  if (weights.length === 0) {
-    throw new Error("Weights array cannot be empty");
+// Average balances over [fromBlock, toBlock], counting every block with the
+// balance held at its end. Base produces blocks at a fixed interval, so this
+// block weighting is also a time weighting. LP balances are sampled at
+// lpSamples evenly spaced blocks across the same window.
+export const snapshotTimeWeighted = async (
+  ctx: IndexerContext,
+  fromBlock: number,
+  toBlock: number,
+  includeLPs: boolean,
+  lpSamples: number = 10
+) => {
+  const { tokens, logging } = ctx;
+  if (fromBlock > toBlock) {
+    throw new ConfigurationError(
+      `fromBlock ${fromBlock} is after toBlock ${toBlock}`
+    );
   }
 
-  const totalWeight = weights.reduce(
-    (sum, weight) => sum + Math.max(0, weight),
-    0
+  const transfers = await getAllTransfers(ctx, toBlock);
+
+  if (logging) console.time("snapshotTimeWeightedTokens");
+
+  const windowLength = BigInt(toBlock - fromBlock + 1);
+  const accumulated = new Map<string, Map<string, bigint>>();
+  const lastChange = new Map<string, number>();
+
+  const accumulate = (
+    holderAddress: string,
+    tokenAddress: string,
+    balance: bigint,
+    untilBlock: number
+  ) => {
+    const key = `${holderAddress}:${tokenAddress}`;
+    const since = Math.max(lastChange.get(key) ?? fromBlock, fromBlock);
+    lastChange.set(key, untilBlock);
+    if (untilBlock <= since || balance === 0n) return;
+
+    if (!accumulated.has(holderAddress)) {
+      accumulated.set(holderAddress, new Map());
+    }
+    const holder = accumulated.get(holderAddress)!;
+    holder.set(
+      tokenAddress,
+      (holder.get(tokenAddress) ?? 0n) + balance * BigInt(untilBlock - since)
+    );
+  };
+
+  const { holderBalances } = replayTransfers(
+    transfers.transfers,
+    tokens,
+    (holderAddress, tokenAddress, previousBalance, blockNumber) =>
+      accumulate(holderAddress, tokenAddress, previousBalance, blockNumber)
   );
-  if (totalWeight <= 0) {
-    throw new Error("Total weight must be positive");
+
+  for (const [holderAddress, balances] of holderBalances) {
+    for (const [tokenAddress, { balance }] of balances) {
+      accumulate(holderAddress, tokenAddress, balance, toBlock + 1);
+    }
+  }
+
+  if (logging) console.timeEnd("snapshotTimeWeightedTokens");
+
+  const lpAccumulated = new Map<
+    string,
+    Map<
+      string,
+      {
+        lpBalance: bigint;
+        lpFees: bigint;
+        lpPositions: Map<string, LPPosition>;
+      }
+    >
+  >();
+  const sampleBlocks = Array.from(
+    new Set(
+      Array.from({ length: Math.max(1, lpSamples) }, (_, i) =>
+        lpSamples <= 1
+          ? toBlock
+          : Math.round(
+              fromBlock + ((toBlock - fromBlock) * i) / (lpSamples - 1)
+            )
+      )
+    )
+  );
+
+  if (includeLPs) {
+    for (const sampleBlock of sampleBlocks) {
+      const lpBalances = await collectLPBalances(ctx, sampleBlock);
+
+      for (const lpHolder of lpBalances) {
+        if (!lpAccumulated.has(lpHolder.holderAddress)) {
+          lpAccumulated.set(lpHolder.holderAddress, new Map());
+        }
+        const holder = lpAccumulated.get(lpHolder.holderAddress)!;
+        for (const balance of lpHolder.balances) {
+          const existing = holder.get(balance.tokenAddress);
+          const lpPositions = existing?.lpPositions ?? new Map();
+
+          // A position that moved in and out of range during the window is
+          // kept as one entry per range status.
+          for (const position of balance.lpPositions ?? []) {
+            const key = `${position.pool}:${position.tokenId}:${position.inRange}`;
+            const summed = lpPositions.get(key);
+            lpPositions.set(key, {
+              ...position,
+              amount: (summed?.amount ?? 0n) + position.amount,
+              fees: (summed?.fees ?? 0n) + position.fees,
+              activeLiquidityShare:
+                (summed?.activeLiquidityShare ?? 0) +
+                position.activeLiquidityShare,
+            });
+          }
+
+          holder.set(balance.tokenAddress, {
+            lpBalance: (existing?.lpBalance ?? 0n) + balance.lpBalance,
+            lpFees: (existing?.lpFees ?? 0n) + balance.lpFees,
+            lpPositions,
+          });
+        }
+      }
+    }
   }
 
-  const randomBuffer = new Uint32Array(1);
-  crypto.getRandomValues(randomBuffer);
-  let random = (randomBuffer[0] / 0xffffffff) * totalWeight;
+  const holderAddresses = new Set([
+    ...accumulated.keys(),
+    ...lpAccumulated.keys(),
+  ]);
 
-  for (let i = 0; i < weights.length; i++) {
-    if (weights[i] < 0) continue;
-    random -= weights[i];
-    if (random <= 0) {
-      return i;
+  const result: Balance[] = Array.from(holderAddresses)
+    .map((holderAddress) => ({
+      holderAddress,
+      balances: tokens
+        .map((token) => ({
+          tokenAddress: token.address,
+          balance:
+            (accumulated.get(holderAddress)?.get(token.address) ?? 0n) /
+            windowLength,
+          lpBalance:
+            (lpAccumulated.get(holderAddress)?.get(token.address)?.lpBalance ??
+              0n) / BigInt(sampleBlocks.length),
+          lpFees:
+            (lpAccumulated.get(holderAddress)?.get(token.address)?.lpFees ??
+              0n) / BigInt(sampleBlocks.length),
+          lpPositions: Array.from(
+            lpAccumulated
+              .get(holderAddress)
+              ?.get(token.address)
+              ?.lpPositions.values() ?? []
+          ).map((position) => ({
+            ...position,
+            amount: position.amount / BigInt(sampleBlocks.length),
+            fees: position.fees / BigInt(sampleBlocks.length),
+            activeLiquidityShare:
+              position.activeLiquidityShare / sampleBlocks.length,
+          })),
+          decimals: transfers.decimals.get(token.address.toLowerCase())!,
+        }))
+        .filter(
+          (balance) =>
+            balance.balance > 0n ||
+            balance.lpBalance > 0n ||
+            balance.lpFees > 0n
+        ),
+    }))
+    .filter((holder) => holder.balances.length > 0);
+
+  return applyExclusions(ctx, toBlock, result);
+};
+
+// One Balance per address across chains. Token balances keep their chain,
+// so tokens with the same address on two chains stay apart.
+export const mergeChainSnapshots = (
+  snapshots: {
+    chainId: number;
+    blockNumber: number;
+    holders: Balance[] & { excluded: ExcludedHolder[] };
+  }[]
+): Balance[] & {
+  excluded: ExcludedHolder[];
+  chainBlocks: Record<string, number>;
+} => {
+  const merged = new Map<string, Balance["balances"]>();
+
+  for (const { chainId, holders } of snapshots) {
+    for (const holder of holders) {
+      if (!merged.has(holder.holderAddress)) {
+        merged.set(holder.holderAddress, []);
+      }
+      merged
+        .get(holder.holderAddress)!
+        .push(...holder.balances.map((balance) => ({ ...balance, chainId })));
     }
   }
 
-  throw new Error("Failed to select weighted random index");
-}
+  return Object.assign(
+    Array.from(merged.entries()).map(([holderAddress, balances]) => ({
+      holderAddress,
+      balances,
+    })),
+    {
+      excluded: snapshots.flatMap((snapshot) => snapshot.holders.excluded),
+      chainBlocks: Object.fromEntries(
+        snapshots.map((snapshot) => [
+          String(snapshot.chainId),
+          snapshot.blockNumber,
+        ])
+      ),
+    }
+  );
+};
+
+const getWeightedLPAmount = (
+  balance: Balance["balances"][number],
+  lpWeight: LPWeight
+) => {
+  if (typeof lpWeight === "number") {
+    return (
+      lpWeight *
+      Number(formatUnits(balance.lpBalance + balance.lpFees, balance.decimals))
+    );
+  }
+
+  if (!balance.lpPositions) {
+    return (
+      lpWeight.inRange *
+      Number(formatUnits(balance.lpBalance + balance.lpFees, balance.decimals))
+    );
+  }
+
+  return balance.lpPositions.reduce(
+    (sum, position) =>
+      sum +
+      (position.inRange ? lpWeight.inRange : lpWeight.outOfRange) *
+        Number(formatUnits(position.amount + position.fees, balance.decimals)),
+    0
+  );
+};
 
 // If lpWeight is 0, LPs will not be considered in the results.
 // Any other value will include them and be used as a multiplier for their weights.
+// Pass { inRange, outOfRange } to weigh positions by their range status.
+// With a seed, the draw is deterministic and a replayable proof is attached.
 export const getRandomWinners = async (
-  apiKey: string,
+  ctx: IndexerContext,
   blockNumber: number,
-  tokens: Token[],
-  lpWeight: number,
+  lpWeight: LPWeight,
   numberOfWinners: number,
-  logging?: boolean
-): Promise<Winner[]> => {
-  const holders = await snapshotHolders(
-    apiKey,
+  options: DrawOptions = {}
+): Promise<
+  Winner[] & {
+    proof?: DrawProof;
+    excluded: ExcludedHolder[];
+    weighting: WeightingRecord;
+  }
+> => {
+  // Checked before the snapshot, which can take long.
+  if (options.tiers) validateTierWinners(options.tiers, numberOfWinners);
+  const includeLPs = drawIncludesLPs(lpWeight);
+  const holders = options.timeWeighted
+    ? await snapshotTimeWeighted(
+        ctx,
+        options.timeWeighted.fromBlock,
+        blockNumber,
+        includeLPs,
+        options.timeWeighted.lpSamples
+      )
+    : await snapshotHolders(ctx, blockNumber, includeLPs);
+
+  return drawFromHolders(
+    ctx,
     blockNumber,
-    tokens,
-    lpWeight > 0,
-    logging
+    holders,
+    lpWeight,
+    numberOfWinners,
+    options
   );
+};
 
+export const drawIncludesLPs = (lpWeight: LPWeight) =>
+  typeof lpWeight === "number"
+    ? lpWeight > 0
+    : lpWeight.inRange > 0 || lpWeight.outOfRange > 0;
+
+// Draws from an existing snapshot, such as one merged across chains. The seed
+// block is on ctx's chain.
+export const drawFromHolders = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  holders: Balance[] & {
+    excluded: ExcludedHolder[];
+    chainBlocks?: Record<string, number>;
+    prices?: TokenPrice[];
+  },
+  lpWeight: LPWeight,
+  numberOfWinners: number,
+  options: DrawOptions = {}
+): Promise<
+  Winner[] & {
+    proof?: DrawProof;
+    excluded: ExcludedHolder[];
+    weighting: WeightingRecord;
+  }
+> => {
+  const { logging } = ctx;
+  const { tiers } = options;
+  if (tiers) validateTierWinners(tiers, numberOfWinners);
   if (logging) console.time("getRandomWinners");
 
-  const holdersWithWeights: Winner[] = holders.map((holder) => ({
-    address: holder.holderAddress,
-    weight: holder.balances.reduce(
+  const weighting = options.weighting ?? linearWeighting();
+  const prices = options.prices ?? holders.prices;
+  const weightingRecord = recordWeighting(
+    weighting,
+    options.tokenMultipliers,
+    prices
+  );
+
+  // With prices, amounts are in the quote token and unpriced tokens count as
+  // zero.
+  const unitValue = (balance: Balance["balances"][number]) => {
+    if (!prices) return 1;
+    const price = findTokenPrice(prices, balance);
+    return price ? unitPrice(price, balance.decimals) : 0;
+  };
+
+  const amountOf = (holder: Balance) =>
+    holder.balances.reduce(
       (sum, balance) =>
         sum +
-        normalizeToEther(balance.balance) +
-        lpWeight * normalizeToEther(balance.lpBalance),
+        getTokenMultiplier(options.tokenMultipliers, balance) *
+          unitValue(balance) *
+          (Number(formatUnits(balance.balance, balance.decimals)) +
+            getWeightedLPAmount(balance, lpWeight)),
       0
-    ),
-    balances: [holder],
-  }));
+    );
+
+  // Holders of one cluster enter once, with the cluster's combined balances.
+  const entrants: (Balance & { cluster?: string[] })[] = options.clusters
+    ? clusterHolders(holders, options.clusters, amountOf)
+    : holders;
+
+  // Winners of the latest rounds in the history sit out or weigh less. A
+  // cluster takes the lowest multiplier of its members.
+  const multipliers =
+    options.history && options.recentWinners
+      ? recentWinnerMultipliers(options.history, options.recentWinners)
+      : new Map<string, number>();
+  const multiplier = (holder: (typeof entrants)[number]) =>
+    Math.min(
+      ...(holder.cluster ?? [holder.holderAddress]).map(
+        (address) => multipliers.get(address.toLowerCase()) ?? 1
+      )
+    );
+  const excluded: ExcludedHolder[] = [
+    ...holders.excluded,
+    ...entrants
+      .filter((holder) => multiplier(holder) === 0)
+      .map((holder) => ({
+        holderAddress: holder.holderAddress,
+        reason: "Won a recent draw",
+        balances: holder.balances,
+      })),
+  ];
+
+  const holdersWithWeights: Winner[] = entrants
+    .filter((holder) => multiplier(holder) > 0)
+    .map((holder) => ({
+      address: holder.holderAddress,
+      weight: multiplier(holder) * weighting.weigh(amountOf(holder), holder),
+      balances: [holder],
+      ...(holder.cluster && { cluster: holder.cluster }),
+    }));
 
   holdersWithWeights.sort((a, b) => b.weight - a.weight);
 
-  if (numberOfWinners >= holdersWithWeights.length) {
-    return holdersWithWeights;
-  }
+  // Picks come in draw order, which decides the tiers. Winners are listed by
+  // tier, then by weight.
+  const rankWinners = (picked: Winner[]) => {
+    if (!tiers) return picked.sort((a, b) => b.weight - a.weight);
+    const assigned = assignTiers(
+      picked.map((winner) => winner.address),
+      tiers
+    );
+    const rank = (winner: Winner) =>
+      tiers.findIndex((tier) => tier.name === winner.tier);
+    return picked
+      .map((winner) => ({ ...winner, tier: assigned.get(winner.address) }))
+      .sort((a, b) => rank(a) - rank(b) || b.weight - a.weight);
+  };
 
-  const winners = new Set<string>();
-  const selectedWinners: Winner[] = [];
-  const weights = holdersWithWeights.map((h) => h.weight);
-
-  while (
-    winners.size < numberOfWinners &&
-    winners.size < holdersWithWeights.length
-  ) {
-    const selectedIndex = getWeightedRandomIndex(weights);
-    const winner = holdersWithWeights[selectedIndex];
-
-    if (!winners.has(winner.address)) {
-      winners.add(winner.address);
-      selectedWinners.push(winner);
-      weights[selectedIndex] = 0;
-    }
+  if (options.seed) {
+    const { seed, seedBlockNumber } = await resolveDrawSeed(
+      ctx,
+      blockNumber,
+      options.seed
+    );
+    const entrants = canonicalizeEntrants(holdersWithWeights);
+    const picks = drawWithSeed(entrants, numberOfWinners, seed);
+    const byAddress = new Map(
+      holdersWithWeights.map((holder) => [holder.address.toLowerCase(), holder])
+    );
+
+    const proof: DrawProof = {
+      version: DRAW_ALGORITHM_VERSION,
+      snapshotBlock: blockNumber,
+      seed,
+      seedBlockNumber,
+      lpWeight,
+      timeWeightedFromBlock: options.timeWeighted?.fromBlock,
+      weighting: weightingRecord,
+      chainBlocks: holders.chainBlocks,
+      tiers,
+      recentWinners: options.history && options.recentWinners,
+      clusters:
+        options.clusters &&
+        Object.fromEntries(
+          holdersWithWeights
+            .filter((holder) => holder.cluster)
+            .map((holder) => [holder.address.toLowerCase(), holder.cluster!])
+        ),
+      numberOfWinners,
+      entrants: entrants.map((entrant) => ({
+        address: entrant.address,
+        weight: entrant.weight.toString(),
+      })),
+      winners: picks,
+    };
+
+    if (logging) console.timeEnd("getRandomWinners");
+    return Object.assign(
+      rankWinners(picks.map((address) => byAddress.get(address)!)),
+      { proof, excluded, weighting: weightingRecord }
+    );
   }
 
+  // Holders without weight, such as those below the lowest tier of tiered
+  // weighting, are never drawn, even when there are prizes left.
+  const picks = sampleWithoutReplacement(
+    holdersWithWeights.map((holder) => holder.weight),
+    numberOfWinners
+  );
+  const selectedWinners = picks.map((index) => holdersWithWeights[index]);
+
   if (logging) console.timeEnd("getRandomWinners");
-  return selectedWinners.sort((a, b) => b.weight - a.weight);
+  return Object.assign(rankWinners(selectedWinners), {
+    excluded,
+    weighting: weightingRecord,
+  });
 };
 
 export const exportTransfersToCSV = async (
-  transfers: { transfers: any[] },
+  transfers: { transfers: Transfer[]; decimals: Map<string, number> },
   blockNumber?: number,
   csvExportFilename?: string,
   logging?: boolean
@@ -695,12 +1176,15 @@ export const exportTransfersToCSV = async (
   ];
 
   const rows = transfers.transfers.map((transfer) => [
-    transfer.blockNum,
-    transfer.rawContract.address,
+    transfer.blockNumber,
+    transfer.tokenAddress,
     transfer.from,
     transfer.to,
-    normalizeToEther(transfer.value),
-    transfer.hash,
+    formatUnits(
+      transfer.value,
+      transfers.decimals.get(transfer.tokenAddress.toLowerCase())!
+    ),
+    transfer.transactionHash,
   ]);
 
   const csvContent = [
@@ -745,34 +1229,44 @@ export const exportLPsToJSON = async (
   if (logging) console.timeEnd("exportLPsToJSON");
 };
 
-export const exportLPBalancesToCSV = async (
-  lpBalances: Balance[],
-  tokens: Token[],
+export const exportDrawProofToJSON = async (
+  proof: DrawProof,
   blockNumber?: number,
-  csvExportFilename?: string,
+  jsonExportFilename?: string,
   logging?: boolean
 ) => {
-  if (logging) console.time("exportLPBalancesToCSV");
+  if (logging) console.time("exportDrawProofToJSON");
+
+  const filename = jsonExportFilename
+    ? jsonExportFilename
+    : `draw-proof-block-${blockNumber}.json`;
 
+  fs.writeFileSync(filename, JSON.stringify(proof, null, 2));
+  if (logging) console.timeEnd("exportDrawProofToJSON");
+};
+
+export const lpBalancesToCSV = (lpBalances: Balance[], tokens: Token[]) => {
   const headers = [
     "Holder Address",
-    ...tokens.map((token) => `${token.address} LP Balance`),
+    ...tokens.flatMap((token) => [
+      `${tokenLabel(tokens, token)} LP Balance`,
+      `${tokenLabel(tokens, token)} LP Fees`,
+    ]),
   ];
 
   const rows = lpBalances.map((holder) => {
     const row: (string | number)[] = [holder.holderAddress];
 
     tokens.forEach((token) => {
-      const balance = holder.balances.find(
-        (b) => b.tokenAddress.toLowerCase() === token.address.toLowerCase()
-      );
-      row.push(balance?.lpBalance || 0);
+      const balance = findTokenBalance(holder.balances, token);
+      row.push(balance ? formatUnits(balance.lpBalance, balance.decimals) : 0);
+      row.push(balance ? formatUnits(balance.lpFees, balance.decimals) : 0);
     });
 
     return row;
   });
 
-  const csvContent = [
+  return [
     headers.join(","),
     ...rows.map((row) =>
       row
@@ -784,6 +1278,18 @@ export const exportLPBalancesToCSV = async (
         .join(",")
     ),
   ].join("\n");
+};
+
+export const exportLPBalancesToCSV = async (
+  lpBalances: Balance[],
+  tokens: Token[],
+  blockNumber?: number,
+  csvExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportLPBalancesToCSV");
+
+  const csvContent = lpBalancesToCSV(lpBalances, tokens);
 
   const filename = csvExportFilename
     ? csvExportFilename
@@ -793,90 +1299,157 @@ export const exportLPBalancesToCSV = async (
   if (logging) console.timeEnd("exportLPBalancesToCSV");
 };
 
-export const exportSnapshotToCSV = async (
-  holders: Balance[],
-  tokens: Token[],
+export const exportLPPositionsToCSV = async (
+  lpBalances: Balance[],
   blockNumber?: number,
   csvExportFilename?: string,
   logging?: boolean
 ) => {
-  if (logging) console.time("exportSnapshotToCSV");
+  if (logging) console.time("exportLPPositionsToCSV");
 
   const headers = [
     "Holder Address",
-    ...tokens.flatMap((token) => [
-      `${token.address} Token Balance`,
-      `${token.address} LP Balance`,
-    ]),
+    "Token Address",
+    "Source",
+    "Pool",
+    "Token ID",
+    "Tick Lower",
+    "Tick Upper",
+    "Liquidity",
+    "Amount",
+    "Fees",
+    "In Range",
+    "Active Liquidity Share",
   ];
 
-  const rows = holders.map((holder) => {
-    const row: (string | number)[] = [holder.holderAddress];
-
-    tokens.forEach((token) => {
-      const balances = holder.balances.find(
-        (b) => b.tokenAddress.toLowerCase() === token.address.toLowerCase()
-      );
-      row.push(balances?.balance || 0);
-      row.push(balances?.lpBalance || 0);
-    });
-
-    return row;
-  });
+  const rows = lpBalances.flatMap((holder) =>
+    holder.balances.flatMap((balance) =>
+      (balance.lpPositions ?? []).map((position) => [
+        holder.holderAddress,
+        balance.tokenAddress,
+        position.source,
+        position.pool,
+        position.tokenId?.toString() ?? "",
+        position.tickLower ?? "",
+        position.tickUpper ?? "",
+        position.liquidity.toString(),
+        formatUnits(position.amount, balance.decimals),
+        formatUnits(position.fees, balance.decimals),
+        position.inRange,
+        position.activeLiquidityShare,
+      ])
+    )
+  );
 
   const csvContent = [
     headers.join(","),
-    ...rows.map((row) =>
-      row
-        .map((value) =>
-          typeof value === "number"
-            ? value.toFixed(18).replace(/\.?0+$/, "")
-            : value
-        )
-        .join(",")
-    ),
+    ...rows.map((row) => row.join(",")),
   ].join("\n");
 
   const filename = csvExportFilename
     ? csvExportFilename
-    : `snapshot-block-${blockNumber}.csv`;
+    : `lp-positions-block-${blockNumber}.csv`;
 
   fs.writeFileSync(filename, csvContent);
-  if (logging) console.timeEnd("exportSnapshotToCSV");
+  if (logging) console.timeEnd("exportLPPositionsToCSV");
 };
 
-export const exportWinnersToCSV = async (
-  winners: Winner[],
+// Snapshots valued in a quote token end with each holder's tokens, LP amounts
+// and fees in that token.
+export const snapshotToCSV = (
+  holders: Balance[] & { prices?: TokenPrice[] },
+  tokens: Token[]
+) => {
+  const { prices } = holders;
+  const quote = prices?.[0];
+  return [
+    [
+      "Holder Address",
+      ...snapshotTokenHeaders(tokens),
+      ...(quote ? [`Value (${quote.quoteSymbol ?? quote.quoteToken})`] : []),
+    ].join(","),
+    ...holders.map((holder) =>
+      [
+        holder.holderAddress,
+        ...snapshotTokenCells(holder, tokens),
+        ...(quote
+          ? [formatUnits(holderValue(holder, prices!), quote.quoteDecimals)]
+          : []),
+      ].join(",")
+    ),
+  ].join("\n");
+};
+
+export const exportSnapshotToCSV = async (
+  holders: Balance[] & { prices?: TokenPrice[] },
   tokens: Token[],
   blockNumber?: number,
   csvExportFilename?: string,
   logging?: boolean
 ) => {
-  if (logging) console.time("exportWinnersToCSV");
+  if (logging) console.time("exportSnapshotToCSV");
+
+  const csvContent = snapshotToCSV(holders, tokens);
+
+  const filename = csvExportFilename
+    ? csvExportFilename
+    : `snapshot-block-${blockNumber}.csv`;
+
+  fs.writeFileSync(filename, csvContent);
+  if (logging) console.timeEnd("exportSnapshotToCSV");
+};
+
+// Every row names the weighting the draw used, when it is known.
+export const winnersToCSV = (
+  winners: Winner[] & { weighting?: WeightingRecord },
+  tokens: Token[]
+) => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const weighting = winners.weighting
+    ? quote(describeWeighting(winners.weighting))
+    : "";
+  // Only tiered draws have a Tier column.
+  const tiered = winners.some((winner) => winner.tier !== undefined);
+  // Only clustered draws have a Cluster column, with every member address.
+  const clustered = winners.some((winner) => winner.cluster !== undefined);
   const headers = [
     "Holder Address",
+    ...(tiered ? ["Tier"] : []),
     "Total Weight",
+    "Weighting",
+    ...(clustered ? ["Cluster"] : []),
     ...tokens.flatMap((token) => [
-      `${token.address} Token Balance`,
-      `${token.address} LP Balance`,
+      `${tokenLabel(tokens, token)} Token Balance`,
+      `${tokenLabel(tokens, token)} LP Balance`,
+      `${tokenLabel(tokens, token)} LP Fees`,
     ]),
   ];
 
   const rows = winners.map((winner) => {
-    const row: (string | number)[] = [winner.address, winner.weight];
+    const row: (string | number)[] = [
+      winner.address,
+      ...(tiered ? [quote(winner.tier ?? "")] : []),
+      winner.weight,
+      weighting,
+      ...(clustered ? [(winner.cluster ?? []).join(" ")] : []),
+    ];
 
     tokens.forEach((token) => {
-      const balances = winner.balances[0]?.balances.find(
-        (b) => b.tokenAddress.toLowerCase() === token.address.toLowerCase()
+      const balances = findTokenBalance(
+        winner.balances[0]?.balances ?? [],
+        token
+      );
+      row.push(balances ? formatUnits(balances.balance, balances.decimals) : 0);
+      row.push(
+        balances ? formatUnits(balances.lpBalance, balances.decimals) : 0
       );
-      row.push(balances?.balance || 0);
-      row.push(balances?.lpBalance || 0);
+      row.push(balances ? formatUnits(balances.lpFees, balances.decimals) : 0);
     });
 
     return row;
   });
 
-  const csvContent = [
+  return [
     headers.join(","),
     ...rows.map((row) =>
       row
@@ -888,6 +1461,17 @@ export const exportWinnersToCSV = async (
         .join(",")
     ),
   ].join("\n");
+};
+
+export const exportWinnersToCSV = async (
+  winners: Winner[] & { weighting?: WeightingRecord },
+  tokens: Token[],
+  blockNumber?: number,
+  csvExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportWinnersToCSV");
+  const csvContent = winnersToCSV(winners, tokens);
 
   const filename = csvExportFilename
     ? csvExportFilename
@@ -896,13 +1480,3 @@ export const exportWinnersToCSV = async (
   fs.writeFileSync(filename, csvContent);
   if (logging) console.timeEnd("exportWinnersToCSV");
 };
-
-function normalizeToEther(value: string | number): number {
-  const num = Number(value);
-
-  if (Math.abs(num) > 1e18) {
-    return num / 1e18;
-  }
-
-  return num;
-}
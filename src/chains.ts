@@ -0,0 +1,118 @@
+import { Network } from "alchemy-sdk";
+import {
+  arbitrum,
+  base,
+  mainnet,
+  optimism,
+  polygon,
+  type Chain,
+} from "viem/chains";
+import type { IndexerContext } from "./types";
+import {
+  POSITION_MANAGER,
+  V4_POOL_MANAGER,
+  V4_POSITION_MANAGER,
+  V4_STATE_VIEW,
+} from "./constants";
+import { ConfigurationError } from "./errors";
+
+export type ChainInfo = {
+  chain: Chain;
+  alchemyNetwork: Network;
+  // Uniswap V3 NonfungiblePositionManager.
+  positionManager: string;
+  v4?: { poolManager: string; positionManager: string; stateView: string };
+};
+
+const UNISWAP_V3_POSITION_MANAGER =
+  "0xC36442b4a4522E871399CD717aBDD847Ab11FE88";
+
+export const DEFAULT_CHAIN_ID = base.id;
+
+export const CHAINS: Record<number, ChainInfo> = {
+  [base.id]: {
+    chain: base,
+    alchemyNetwork: Network.BASE_MAINNET,
+    positionManager: POSITION_MANAGER,
+    v4: {
+      poolManager: V4_POOL_MANAGER,
+      positionManager: V4_POSITION_MANAGER,
+      stateView: V4_STATE_VIEW,
+    },
+  },
+  [mainnet.id]: {
+    chain: mainnet,
+    alchemyNetwork: Network.ETH_MAINNET,
+    positionManager: UNISWAP_V3_POSITION_MANAGER,
+  },
+  [optimism.id]: {
+    chain: optimism,
+    alchemyNetwork: Network.OPT_MAINNET,
+    positionManager: UNISWAP_V3_POSITION_MANAGER,
+  },
+  [arbitrum.id]: {
+    chain: arbitrum,
+    alchemyNetwork: Network.ARB_MAINNET,
+    positionManager: UNISWAP_V3_POSITION_MANAGER,
+  },
+  [polygon.id]: {
+    chain: polygon,
+    alchemyNetwork: Network.MATIC_MAINNET,
+    positionManager: UNISWAP_V3_POSITION_MANAGER,
+  },
+};
+
+export const getChainInfo = (chainId: number) => {
+  const info = CHAINS[chainId];
+  if (!info) throw new ConfigurationError(`Unsupported chain ${chainId}`);
+  return info;
+};
+
+export const getChainId = (ctx: IndexerContext) =>
+  ctx.chainId ?? DEFAULT_CHAIN_ID;
+
+export const getPositionManager = (ctx: IndexerContext) =>
+  ctx.positionManager ?? getChainInfo(getChainId(ctx)).positionManager;
+
+// The last block on ctx's chain mined at or before the given timestamp.
+export const findBlockAtTimestamp = async (
+  ctx: IndexerContext,
+  timestamp: bigint
+) => {
+  const latest = await ctx.provider.getBlock({ blockTag: "latest" });
+  if (latest.timestamp <= timestamp) return Number(latest.number);
+
+  let low = 0n;
+  let high = latest.number;
+  while (low < high) {
+    const middle = (low + high + 1n) / 2n;
+    const block = await ctx.provider.getBlock({ blockNumber: middle });
+    if (block.timestamp <= timestamp) {
+      low = middle;
+    } else {
+      high = middle - 1n;
+    }
+  }
+  return Number(low);
+};
+
+// Block numbers refer to the default chain; other chains are read at their
+// last block mined by the same time.
+export const resolveChainBlock = async (
+  home: IndexerContext,
+  ctx: IndexerContext,
+  blockNumber: number
+) => {
+  if (getChainId(ctx) === getChainId(home)) return blockNumber;
+  const block = await home.provider.getBlock({
+    blockNumber: BigInt(blockNumber),
+  });
+  return findBlockAtTimestamp(ctx, block.timestamp);
+};
+
+// Streams are indexed up to the requested block, but never past the chain
+// tip, so events mined later in a requested range are still fetched.
+export const clampToChainTip = async (
+  ctx: IndexerContext,
+  blockNumber: number
+) => Math.min(blockNumber, Number((await ctx.provider.getBlock()).number));
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  EXIT_CONFIG,
+  EXIT_FAILURE,
+  EXIT_INCOMPLETE,
+  EXIT_PROVIDER,
+  EXIT_USAGE,
+  exitCodeFor,
+} from "./cli";
+import {
+  ConfigurationError,
+  IncompleteDataError,
+  ProviderError,
+} from "./errors";
+import { createRunReport } from "./report";
+
+describe("exitCodeFor", () => {
+  test("maps indexer errors to their exit codes", () => {
+    expect(exitCodeFor(new ConfigurationError("Unsupported chain 999"))).toBe(
+      EXIT_CONFIG
+    );
+    expect(exitCodeFor(new ProviderError("getLogs failed"))).toBe(
+      EXIT_PROVIDER
+    );
+    expect(exitCodeFor(new IncompleteDataError(createRunReport()))).toBe(
+      EXIT_INCOMPLETE
+    );
+    expect(exitCodeFor(new Error("unexpected"))).toBe(EXIT_FAILURE);
+  });
+
+  test("maps malformed flags to a usage error", () => {
+    const error = Object.assign(new Error("Unknown option"), {
+      code: "ERR_PARSE_ARGS_UNKNOWN_OPTION",
+    });
+    expect(exitCodeFor(error)).toBe(EXIT_USAGE);
+  });
+});
+
+// Runs the CLI in its own process against an unreachable RPC, so only
+// failures before the first request can be tested.
+const runCli = (config: object, args: string[]) => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "cli-test-"));
+  const configFile = path.join(directory, "config.json");
+  fs.writeFileSync(configFile, JSON.stringify(config));
+
+  try {
+    const result = Bun.spawnSync(
+      [
+        process.execPath,
+        path.join(import.meta.dir, "cli.ts"),
+        ...args,
+        "--config",
+        configFile,
+      ],
+      { env: { ...process.env, RPC_URL: "http://127.0.0.1:1" } }
+    );
+    return {
+      exitCode: result.exitCode,
+      stderr: result.stderr.toString().trim(),
+    };
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+};
+
+const TOKEN = "0x0000000000000000000000000000000000000001";
+
+describe("cli", () => {
+  test("exits with the config code and only the message for an unsupported chain", () => {
+    const result = runCli(
+      {
+        tokens: [{ address: TOKEN, chainId: 999 }],
+        chains: { 999: { rpcUrl: "http://127.0.0.1:1" } },
+      },
+      ["snapshot", "--block", "1"]
+    );
+
+    expect(result).toEqual({
+      exitCode: EXIT_CONFIG,
+      stderr: "Unsupported chain 999",
+    });
+  });
+
+  test("rejects a self-test without trials", () => {
+    const result = runCli({ tokens: [] }, ["self-test", "--trials", "0"]);
+
+    expect(result).toEqual({
+      exitCode: EXIT_USAGE,
+      stderr: "--trials must be at least 1",
+    });
+  });
+
+  test("rejects winners that do not match the prize tiers before indexing", () => {
+    const result = runCli(
+      {
+        tokens: [{ address: TOKEN }],
+        tiers: [
+          { name: "grand", winners: 1 },
+          { name: "runner-up", winners: 2 },
+        ],
+      },
+      ["winners", "--block", "1", "--lp-weight", "0", "--winners", "5"]
+    );
+
+    expect(result).toEqual({
+      exitCode: EXIT_USAGE,
+      stderr: "--winners 5 does not match the 3 winners of the prize tiers",
+    });
+  });
+});
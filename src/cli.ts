@@ -0,0 +1,417 @@
+#!/usr/bin/env bun
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { parse as parseYaml } from "yaml";
+import type {
+  ChainConfig,
+  ClusterConfig,
+  ExclusionConfig,
+  LPWeight,
+  PrizeTier,
+  RecentWinnerPolicy,
+  RequestSchedulerConfig,
+  Token,
+  TransferSource,
+  ValuationConfig,
+  WeightingConfig,
+} from "./types";
+import { createFileIndexStore } from "./store";
+import { createJsonRpcProvider } from "./providers";
+import { createRequestScheduler } from "./scheduler";
+import { createWeighting } from "./weighting";
+import { validateClusterConfig } from "./clusters";
+import { countTierWinners, runDrawSelfTest, validateTiers } from "./draw";
+import { DaosWorldIndexer } from "./index";
+import { createIndexerServer } from "./server";
+import {
+  ConfigurationError,
+  IncompleteDataError,
+  ProviderError,
+} from "./errors";
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_CONFIG = 3;
+export const EXIT_INCOMPLETE = 4;
+export const EXIT_PROVIDER = 5;
+
+const USAGE = `Usage: daosworld-indexer <command> [options]
+
+Commands:
+  transfers      Export all token transfers
+  lp-holders     Export LP position holders
+  lp-balances    Export LP balances and positions
+  snapshot       Export a balance snapshot
+  winners        Draw weighted random winners
+  clusters       Export clusters of linked wallets with their evidence
+  serve          Serve snapshots and draws over HTTP
+  self-test      Check draw frequencies against the weights
+
+Options:
+  -c, --config <file>      Config file (JSON or YAML), defaults to
+                           daosworld-indexer.config.{json,yaml,yml}
+  -b, --block <number>     Block number to index up to
+  -o, --output <file>      Output path
+      --lp-weight <n>      LP multiplier, or <inRange>,<outOfRange> (winners)
+  -n, --winners <count>    Number of winners (winners), defaults to the
+                           winners of all tiers
+      --seed-block <n>     Draw with the hash of this block as seed (winners)
+      --proof <file>       Write the draw proof to this file (winners)
+      --draw-id <id>       Label of the draw in the draw history (winners)
+      --no-lps             Leave LP balances out (snapshot)
+  -p, --port <number>      Port to listen on (serve), defaults to 3000
+      --trials <count>     Draws per source of randomness (self-test),
+                           defaults to 20000
+  -h, --help               Show this help
+
+Environment:
+  ALCHEMY_API_KEY          Alchemy API key
+  RPC_URL                  JSON-RPC endpoint, used instead of Alchemy for Base
+`;
+
+type CliConfig = {
+  tokens: Token[];
+  exclusions?: ExclusionConfig;
+  includeLPFees?: boolean;
+  chains?: Record<number, Omit<ChainConfig, "provider" | "custodians">>;
+  // Keeps indexed data between runs.
+  storeDirectory?: string;
+  rateLimit?: RequestSchedulerConfig;
+  transferSource?: TransferSource;
+  // How winners are weighted, linear by default.
+  weighting?: WeightingConfig;
+  tokenMultipliers?: Record<string, number>;
+  // Prize tiers, drawn in order, e.g. [{ name: "grand", winners: 1 }].
+  tiers?: PrizeTier[];
+  // Past winners are read from and added to this JSON file.
+  drawHistory?: string;
+  recentWinners?: RecentWinnerPolicy;
+  // Heuristics for the clusters command. When set, draws also treat each
+  // cluster as one entrant.
+  clustering?: ClusterConfig;
+  // Weighs draws by value in a quote token and adds a value column to
+  // snapshots.
+  valuation?: ValuationConfig;
+  // Fails with exit code 4 instead of exporting results that are missing data.
+  strict?: boolean;
+  logging?: boolean;
+};
+
+class CliError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+  }
+}
+
+const CONFIG_FILES = [
+  "daosworld-indexer.config.json",
+  "daosworld-indexer.config.yaml",
+  "daosworld-indexer.config.yml",
+];
+
+const loadConfig = (configPath?: string): CliConfig => {
+  const file =
+    configPath ?? CONFIG_FILES.find((candidate) => fs.existsSync(candidate));
+  if (!file) {
+    throw new CliError(
+      `No config file found, pass --config or create ${CONFIG_FILES[0]}`,
+      EXIT_CONFIG
+    );
+  }
+
+  let config: CliConfig;
+  try {
+    const content = fs.readFileSync(file, "utf8");
+    config = /\.ya?ml$/i.test(file) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new CliError(`Cannot read config ${file}: ${error}`, EXIT_CONFIG);
+  }
+
+  if (
+    !Array.isArray(config?.tokens) ||
+    config.tokens.length === 0 ||
+    config.tokens.some((token) => typeof token?.address !== "string")
+  ) {
+    throw new CliError(
+      `Config ${file} needs a non-empty tokens list with an address for each token`,
+      EXIT_CONFIG
+    );
+  }
+
+  return config;
+};
+
+const parseInteger = (name: string, value: string | undefined) => {
+  if (value === undefined) {
+    throw new CliError(`--${name} is required`, EXIT_USAGE);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new CliError(`--${name} must be a whole number`, EXIT_USAGE);
+  }
+  return Number(value);
+};
+
+const parseLPWeight = (value: string | undefined): LPWeight => {
+  const parts = (value ?? "1").split(",").map(Number);
+  if (parts.length > 2 || parts.some((part) => !(part >= 0))) {
+    throw new CliError(
+      "--lp-weight must be a number or <inRange>,<outOfRange>",
+      EXIT_USAGE
+    );
+  }
+  return parts.length === 1
+    ? parts[0]
+    : { inRange: parts[0], outOfRange: parts[1] };
+};
+
+const loadTiers = (tiers: PrizeTier[]) => {
+  try {
+    validateTiers(tiers);
+    return tiers;
+  } catch (error) {
+    throw new CliError(`Invalid tiers: ${error}`, EXIT_CONFIG);
+  }
+};
+
+const loadClustering = (clustering: ClusterConfig) => {
+  try {
+    validateClusterConfig(clustering);
+    return clustering;
+  } catch (error) {
+    throw new CliError(`Invalid clustering: ${error}`, EXIT_CONFIG);
+  }
+};
+
+const loadWeighting = (weighting: WeightingConfig) => {
+  try {
+    return createWeighting(weighting);
+  } catch (error) {
+    throw new CliError(`Invalid weighting: ${error}`, EXIT_CONFIG);
+  }
+};
+
+const createIndexer = (config: CliConfig) => {
+  const alchemyApiKey = process.env.ALCHEMY_API_KEY;
+  const rpcUrl = process.env.RPC_URL;
+  if (!alchemyApiKey && !rpcUrl) {
+    throw new CliError("Set ALCHEMY_API_KEY or RPC_URL", EXIT_CONFIG);
+  }
+
+  return new DaosWorldIndexer({
+    alchemyApiKey,
+    provider: rpcUrl
+      ? createJsonRpcProvider({
+          rpcUrl,
+          scheduler: createRequestScheduler(config.rateLimit),
+        })
+      : undefined,
+    chains: config.chains,
+    store: config.storeDirectory
+      ? createFileIndexStore(path.resolve(config.storeDirectory))
+      : undefined,
+    tokens: config.tokens,
+    exclusions: config.exclusions,
+    includeLPFees: config.includeLPFees,
+    rateLimit: config.rateLimit,
+    transferSource: config.transferSource,
+    valuation: config.valuation,
+    strict: config.strict,
+    logging: config.logging,
+  });
+};
+
+export const run = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string", short: "c" },
+      block: { type: "string", short: "b" },
+      output: { type: "string", short: "o" },
+      "lp-weight": { type: "string" },
+      winners: { type: "string", short: "n" },
+      "seed-block": { type: "string" },
+      proof: { type: "string" },
+      "draw-id": { type: "string" },
+      "no-lps": { type: "boolean" },
+      port: { type: "string", short: "p" },
+      trials: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const commands = [
+    "transfers",
+    "lp-holders",
+    "lp-balances",
+    "snapshot",
+    "winners",
+    "clusters",
+    "serve",
+    "self-test",
+  ];
+  if (!commands.includes(command)) {
+    throw new CliError(`Unknown command ${command}\n\n${USAGE}`, EXIT_USAGE);
+  }
+
+  if (command === "self-test") {
+    const trials =
+      values.trials !== undefined
+        ? parseInteger("trials", values.trials)
+        : undefined;
+    if (trials !== undefined && trials < 1) {
+      throw new CliError("--trials must be at least 1", EXIT_USAGE);
+    }
+    const results = runDrawSelfTest({ trials });
+    for (const result of results) {
+      console.log(
+        `${result.source}: ${
+          result.passed ? "passed" : "FAILED"
+        }, chi-square ${result.chiSquare.toFixed(2)} with ${
+          result.degreesOfFreedom
+        } degrees of freedom over ${
+          result.trials
+        } draws (z ${result.zScore.toFixed(2)})`
+      );
+    }
+    return results.passed ? EXIT_OK : EXIT_FAILURE;
+  }
+
+  if (command === "serve") {
+    const port = parseInteger("port", values.port ?? "3000");
+    const server = createIndexerServer(
+      createIndexer(loadConfig(values.config))
+    );
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, () => {
+        console.log(`Listening on http://localhost:${port}`);
+      });
+      server.once("close", resolve);
+    });
+    return EXIT_OK;
+  }
+
+  const blockNumber = parseInteger("block", values.block);
+  const output = values.output;
+  const config = loadConfig(values.config);
+  const indexer = createIndexer(config);
+
+  switch (command) {
+    case "transfers":
+      await indexer.getTransfers(
+        blockNumber,
+        output ?? `transfers-block-${blockNumber}.csv`
+      );
+      break;
+    case "lp-holders":
+      await indexer.getLPHolders(
+        blockNumber,
+        output ?? `lp-holders-block-${blockNumber}.json`
+      );
+      break;
+    case "lp-balances":
+      await indexer.getLPBalances(
+        blockNumber,
+        output ?? `lp-balances-block-${blockNumber}.csv`
+      );
+      break;
+    case "snapshot":
+      await indexer.getBalanceSnapshot(
+        blockNumber,
+        !values["no-lps"],
+        output ?? `snapshot-block-${blockNumber}.csv`
+      );
+      break;
+    case "winners": {
+      const tiers = config.tiers && loadTiers(config.tiers);
+      const winners =
+        tiers && values.winners === undefined
+          ? countTierWinners(tiers)
+          : parseInteger("winners", values.winners);
+      if (tiers && winners !== countTierWinners(tiers)) {
+        throw new CliError(
+          `--winners ${winners} does not match the ${countTierWinners(
+            tiers
+          )} winners of the prize tiers`,
+          EXIT_USAGE
+        );
+      }
+      await indexer.getRandomWinners(
+        blockNumber,
+        parseLPWeight(values["lp-weight"]),
+        winners,
+        output ?? `winners-block-${blockNumber}.csv`,
+        {
+          seed:
+            values["seed-block"] !== undefined
+              ? {
+                  blockNumber: parseInteger("seed-block", values["seed-block"]),
+                }
+              : undefined,
+          weighting: config.weighting && loadWeighting(config.weighting),
+          tokenMultipliers: config.tokenMultipliers,
+          tiers,
+          recentWinners: config.recentWinners,
+          proofExportFilename: values.proof,
+          historyFilename: config.drawHistory,
+          drawId: values["draw-id"],
+          clustering: config.clustering && loadClustering(config.clustering),
+        }
+      );
+      break;
+    }
+    case "clusters":
+      await indexer.getClusters(
+        blockNumber,
+        loadClustering(config.clustering ?? {}),
+        output ?? `clusters-block-${blockNumber}.json`
+      );
+      break;
+  }
+
+  return EXIT_OK;
+};
+
+// Expected failures print their message only; anything else is a bug and
+// prints its stack.
+export const exitCodeFor = (error: unknown) => {
+  if (error instanceof CliError) return error.exitCode;
+  if (error instanceof ConfigurationError) return EXIT_CONFIG;
+  if (error instanceof ProviderError) return EXIT_PROVIDER;
+  if (error instanceof IncompleteDataError) return EXIT_INCOMPLETE;
+  // parseArgs rejects unknown and malformed flags.
+  if (
+    error instanceof Error &&
+    "code" in error &&
+    String(error.code).startsWith("ERR_PARSE_ARGS")
+  ) {
+    return EXIT_USAGE;
+  }
+  return EXIT_FAILURE;
+};
+
+if (import.meta.main) {
+  run(process.argv.slice(2)).then(
+    (exitCode) => process.exit(exitCode),
+    (error) => {
+      const exitCode = exitCodeFor(error);
+      if (exitCode === EXIT_FAILURE) {
+        console.error(error);
+      } else if (exitCode === EXIT_USAGE && !(error instanceof CliError)) {
+        console.error(`${error.message}\n\n${USAGE}`);
+      } else {
+        console.error(error.message);
+      }
+      process.exit(exitCode);
+    }
+  );
+}
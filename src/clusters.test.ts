@@ -0,0 +1,173 @@
+import { describe, expect, test } from "bun:test";
+import type { Balance, Transfer } from "./types";
+import { buildClusters, clusterHolders, findClusterEvidence } from "./clusters";
+import { ConfigurationError } from "./errors";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const POOL = "0x00000000000000000000000000000000000000bb";
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+const address = (i: number) => `0x${i.toString(16).padStart(40, "0")}`;
+
+let logIndex = 0;
+const transfer = (
+  from: string,
+  to: string,
+  value: bigint,
+  blockNumber: number
+): Transfer => ({
+  blockNumber,
+  tokenAddress: TOKEN,
+  from,
+  to,
+  value,
+  transactionHash: `0x${(++logIndex).toString(16).padStart(64, "0")}`,
+  logIndex,
+});
+
+// 1 mints, then funds 2 and 3; 4 and 5 buy the same amount from the pool two
+// blocks apart; 6 buys a different amount.
+const TRANSFERS = [
+  transfer(ZERO, address(1), 1000n, 1),
+  transfer(address(1), address(2), 100n, 2),
+  transfer(address(1), address(3), 200n, 3),
+  transfer(POOL, address(4), 777n, 5),
+  transfer(POOL, address(5), 777n, 7),
+  transfer(POOL, address(6), 778n, 8),
+];
+
+const IGNORED = new Set([POOL]);
+
+const heuristicsOf = (transfers: Transfer[], config = {}) =>
+  findClusterEvidence(transfers, 8453, IGNORED, config).map((evidence) => [
+    evidence.heuristic,
+    ...evidence.addresses,
+  ]);
+
+describe("findClusterEvidence", () => {
+  test("links direct transfers, shared funders and identical acquisitions", () => {
+    expect(heuristicsOf(TRANSFERS)).toEqual([
+      ["direct-transfer", address(1), address(2)],
+      ["direct-transfer", address(1), address(3)],
+      ["shared-funder", address(2), address(3)],
+      ["identical-acquisition", address(4), address(5)],
+    ]);
+  });
+
+  test("never links through ignored addresses or the zero address", () => {
+    const evidence = findClusterEvidence(TRANSFERS, 8453, IGNORED);
+    const linked = evidence.flatMap((entry) => entry.addresses);
+
+    expect(linked).not.toContain(POOL);
+    expect(linked).not.toContain(ZERO);
+    expect(evidence.find((entry) => entry.funder)?.funder).toBe(address(1));
+  });
+
+  test("leaves out acquisitions further apart than the block window", () => {
+    expect(
+      heuristicsOf(TRANSFERS, {
+        heuristics: ["identical-acquisition"],
+        acquisitionBlockWindow: 1,
+      })
+    ).toEqual([]);
+  });
+
+  test("treats addresses with many counterparties as hubs", () => {
+    const fanOut = [2, 3, 4].map((i) =>
+      transfer(address(1), address(i), 1n, i)
+    );
+
+    expect(
+      heuristicsOf(fanOut, {
+        heuristics: ["direct-transfer"],
+        maxCounterparties: 2,
+      })
+    ).toEqual([]);
+  });
+
+  test("skips groups larger than maxGroupSize", () => {
+    expect(
+      heuristicsOf(TRANSFERS, {
+        heuristics: ["shared-funder", "identical-acquisition"],
+        maxGroupSize: 1,
+      })
+    ).toEqual([]);
+  });
+
+  test("counts repeated evidence between the same pair once", () => {
+    const evidence = findClusterEvidence(
+      [
+        transfer(address(1), address(2), 1n, 1),
+        transfer(address(2), address(1), 1n, 2),
+      ],
+      8453,
+      IGNORED,
+      { heuristics: ["direct-transfer"] }
+    );
+
+    expect(evidence).toHaveLength(1);
+    expect(evidence[0].count).toBe(2);
+  });
+
+  test("rejects unknown heuristics", () => {
+    expect(() =>
+      findClusterEvidence([], 8453, IGNORED, {
+        heuristics: ["same-ens-name" as never],
+      })
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe("buildClusters", () => {
+  test("joins linked addresses transitively, largest cluster first", () => {
+    const clusters = buildClusters(
+      findClusterEvidence(TRANSFERS, 8453, IGNORED)
+    );
+
+    expect(clusters.map((cluster) => cluster.addresses)).toEqual([
+      [address(1), address(2), address(3)],
+      [address(4), address(5)],
+    ]);
+    expect(clusters[0].id).toBe(address(1));
+    expect(clusters[0].evidence).toHaveLength(3);
+  });
+});
+
+describe("clusterHolders", () => {
+  const holder = (i: number, balance: bigint): Balance => ({
+    holderAddress: address(i),
+    balances: [
+      { tokenAddress: TOKEN, balance, lpBalance: 0n, lpFees: 0n, decimals: 0 },
+    ],
+  });
+  const amount = (h: Balance) => Number(h.balances[0].balance);
+
+  test("merges members under the one holding the most", () => {
+    const clusters = buildClusters(
+      findClusterEvidence(TRANSFERS, 8453, IGNORED)
+    );
+    const entrants = clusterHolders(
+      [holder(1, 10n), holder(2, 50n), holder(3, 5n), holder(6, 7n)],
+      clusters,
+      amount
+    );
+
+    expect(entrants).toEqual([
+      {
+        holderAddress: address(2),
+        balances: [
+          {
+            tokenAddress: TOKEN,
+            balance: 65n,
+            lpBalance: 0n,
+            lpFees: 0n,
+            lpPositions: undefined,
+            decimals: 0,
+          },
+        ],
+        cluster: [address(1), address(2), address(3)],
+      },
+      holder(6, 7n),
+    ]);
+  });
+});
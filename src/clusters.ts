@@ -0,0 +1,327 @@
+import * as fs from "fs";
+import type {
+  Balance,
+  Cluster,
+  ClusterConfig,
+  ClusterEvidence,
+  ClusterHeuristic,
+  IndexerContext,
+  Transfer,
+} from "./types";
+import { getChainId } from "./chains";
+import { findContracts, getExcludedAddresses } from "./exclusions";
+import { ConfigurationError } from "./errors";
+import { getAllTransfers } from "./transfers";
+
+const HEURISTICS: ClusterHeuristic[] = [
+  "direct-transfer",
+  "shared-funder",
+  "identical-acquisition",
+];
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export const validateClusterConfig = (config: ClusterConfig) => {
+  const unknown = (config.heuristics ?? []).filter(
+    (heuristic) => !HEURISTICS.includes(heuristic)
+  );
+  if (unknown.length > 0) {
+    throw new ConfigurationError(
+      `Unknown cluster heuristics ${unknown.join(", ")}; use ${HEURISTICS.join(
+        ", "
+      )}`
+    );
+  }
+};
+
+// Links addresses by the heuristics in config, using token transfers only:
+// the funder of a wallet is whoever sent it its first tokens. Ignored
+// addresses, such as pools, position managers and the zero address of mints,
+// never link anyone, but still count as senders in acquisition patterns.
+export const findClusterEvidence = (
+  transfers: Transfer[],
+  chainId: number,
+  ignored: Set<string>,
+  config: ClusterConfig = {}
+): ClusterEvidence[] => {
+  validateClusterConfig(config);
+  const heuristics = new Set(config.heuristics ?? HEURISTICS);
+  const maxCounterparties = config.maxCounterparties ?? 50;
+  const maxGroupSize = config.maxGroupSize ?? 20;
+  const acquisitionBlockWindow = config.acquisitionBlockWindow ?? 10;
+
+  const sorted = transfers
+    .map((transfer) => ({
+      ...transfer,
+      from: transfer.from.toLowerCase(),
+      to: transfer.to.toLowerCase(),
+    }))
+    .filter((transfer) => transfer.from !== transfer.to)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const counterparties = new Map<string, Set<string>>();
+  for (const { from, to } of sorted) {
+    if (!counterparties.has(from)) counterparties.set(from, new Set());
+    if (!counterparties.has(to)) counterparties.set(to, new Set());
+    counterparties.get(from)!.add(to);
+    counterparties.get(to)!.add(from);
+  }
+  const linkable = (address: string) =>
+    address !== ZERO_ADDRESS &&
+    !ignored.has(address) &&
+    counterparties.get(address)!.size <= maxCounterparties;
+
+  const evidence = new Map<string, ClusterEvidence>();
+  const link = (
+    heuristic: ClusterHeuristic,
+    a: string,
+    b: string,
+    transfer: Transfer,
+    funder?: string
+  ) => {
+    const addresses: [string, string] = a < b ? [a, b] : [b, a];
+    const key = `${heuristic}:${addresses.join(":")}`;
+    const existing = evidence.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    evidence.set(key, {
+      heuristic,
+      addresses,
+      funder,
+      chainId,
+      blockNumber: transfer.blockNumber,
+      transactionHash: transfer.transactionHash,
+      count: 1,
+    });
+  };
+
+  if (heuristics.has("direct-transfer")) {
+    for (const transfer of sorted) {
+      if (linkable(transfer.from) && linkable(transfer.to)) {
+        link("direct-transfer", transfer.from, transfer.to, transfer);
+      }
+    }
+  }
+
+  const received = new Map<string, typeof sorted>();
+  for (const transfer of sorted) {
+    if (!linkable(transfer.to)) continue;
+    if (!received.has(transfer.to)) received.set(transfer.to, []);
+    received.get(transfer.to)!.push(transfer);
+  }
+
+  // Wallets in a group are linked in a chain rather than pairwise, which
+  // yields the same clusters with less evidence.
+  const linkGroups = (
+    heuristic: ClusterHeuristic,
+    groups: Map<string, typeof sorted>,
+    funders = false
+  ) => {
+    for (const [key, firsts] of groups) {
+      if (firsts.length < 2 || firsts.length > maxGroupSize) continue;
+      for (let i = 1; i < firsts.length; i++) {
+        if (
+          heuristic === "identical-acquisition" &&
+          firsts[i].blockNumber - firsts[i - 1].blockNumber >
+            acquisitionBlockWindow
+        ) {
+          continue;
+        }
+        link(
+          heuristic,
+          firsts[i - 1].to,
+          firsts[i].to,
+          firsts[i],
+          funders ? key : undefined
+        );
+      }
+    }
+  };
+
+  if (heuristics.has("shared-funder")) {
+    const funded = new Map<string, typeof sorted>();
+    for (const [first] of received.values()) {
+      if (!linkable(first.from)) continue;
+      if (!funded.has(first.from)) funded.set(first.from, []);
+      funded.get(first.from)!.push(first);
+    }
+    linkGroups("shared-funder", funded, true);
+  }
+
+  if (heuristics.has("identical-acquisition")) {
+    const patterns = new Map<string, typeof sorted>();
+    for (const inbound of received.values()) {
+      const pattern = inbound
+        .map(
+          (transfer) =>
+            `${transfer.tokenAddress.toLowerCase()}:${transfer.from}:${
+              transfer.value
+            }`
+        )
+        .join(",");
+      if (!patterns.has(pattern)) patterns.set(pattern, []);
+      patterns.get(pattern)!.push(inbound[0]);
+    }
+    linkGroups("identical-acquisition", patterns);
+  }
+
+  return [...evidence.values()];
+};
+
+// Evidence from the transfers of ctx's tokens up to blockNumber. With
+// excludeContracts, linked addresses that turn out to be contracts, such as
+// routers and vaults, are ignored and the evidence is found again.
+export const getClusterEvidence = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  config: ClusterConfig = {}
+) => {
+  const { transfers } = await getAllTransfers(ctx, blockNumber);
+  const chainId = getChainId(ctx);
+  const ignored = getExcludedAddresses(ctx);
+  const evidence = findClusterEvidence(transfers, chainId, ignored, config);
+  if (!ctx.exclusions?.excludeContracts) return evidence;
+
+  const allowlist = new Set(
+    (ctx.exclusions.contractAllowlist ?? []).map((address) =>
+      address.toLowerCase()
+    )
+  );
+  const linked = new Set(
+    evidence.flatMap((entry) => [
+      ...entry.addresses,
+      ...(entry.funder ? [entry.funder] : []),
+    ])
+  );
+  const contracts = await findContracts(
+    ctx,
+    blockNumber,
+    [...linked].filter((address) => !allowlist.has(address))
+  );
+  if (contracts.size === 0) return evidence;
+
+  return findClusterEvidence(
+    transfers,
+    chainId,
+    new Set([...ignored, ...contracts]),
+    config
+  );
+};
+
+// Joins every pair of addresses with evidence, transitively.
+export const buildClusters = (evidence: ClusterEvidence[]): Cluster[] => {
+  const parent = new Map<string, string>();
+  const find = (address: string): string => {
+    const next = parent.get(address) ?? address;
+    if (next === address) return address;
+    const root = find(next);
+    parent.set(address, root);
+    return root;
+  };
+
+  for (const { addresses } of evidence) {
+    const [a, b] = addresses.map(find);
+    if (a !== b) parent.set(a < b ? b : a, a < b ? a : b);
+  }
+
+  const clusters = new Map<string, Cluster>();
+  for (const entry of evidence) {
+    const id = find(entry.addresses[0]);
+    if (!clusters.has(id)) {
+      clusters.set(id, { id, addresses: [], evidence: [] });
+    }
+    clusters.get(id)!.evidence.push(entry);
+  }
+  for (const address of parent.keys()) {
+    clusters.get(find(address))!.addresses.push(address);
+  }
+
+  return [...clusters.values()]
+    .map((cluster) => ({
+      ...cluster,
+      addresses: [cluster.id, ...cluster.addresses].sort(),
+    }))
+    .sort(
+      (a, b) =>
+        b.addresses.length - a.addresses.length || (a.id < b.id ? -1 : 1)
+    );
+};
+
+// Sums each token's amounts across members, per chain.
+const mergeBalances = (holderAddress: string, members: Balance[]): Balance => {
+  const merged = new Map<string, Balance["balances"][number]>();
+  for (const balance of members.flatMap((member) => member.balances)) {
+    const key = `${balance.chainId}:${balance.tokenAddress.toLowerCase()}`;
+    const existing = merged.get(key);
+    merged.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            balance: existing.balance + balance.balance,
+            lpBalance: existing.lpBalance + balance.lpBalance,
+            lpFees: existing.lpFees + balance.lpFees,
+            lpPositions:
+              existing.lpPositions || balance.lpPositions
+                ? [
+                    ...(existing.lpPositions ?? []),
+                    ...(balance.lpPositions ?? []),
+                  ]
+                : undefined,
+          }
+        : balance
+    );
+  }
+  return { holderAddress, balances: [...merged.values()] };
+};
+
+// Holders of one cluster become a single holder with their combined
+// balances, under the address of the member with the largest amount.
+export const clusterHolders = (
+  holders: Balance[],
+  clusters: Cluster[],
+  amount: (holder: Balance) => number
+): (Balance & { cluster?: string[] })[] => {
+  const clusterIds = new Map<string, string>();
+  for (const cluster of clusters) {
+    for (const address of cluster.addresses) {
+      clusterIds.set(address.toLowerCase(), cluster.id);
+    }
+  }
+
+  const groups = new Map<string, Balance[]>();
+  for (const holder of holders) {
+    const address = holder.holderAddress.toLowerCase();
+    const key = clusterIds.get(address) ?? address;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(holder);
+  }
+
+  return [...groups.values()].map((members) => {
+    if (members.length === 1) return members[0];
+    const largest = members.reduce((best, member) =>
+      amount(member) > amount(best) ? member : best
+    );
+    return Object.assign(mergeBalances(largest.holderAddress, members), {
+      cluster: members.map((member) => member.holderAddress.toLowerCase()),
+    });
+  });
+};
+
+export const exportClustersToJSON = async (
+  clusters: Cluster[],
+  blockNumber?: number,
+  jsonExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportClustersToJSON");
+
+  const filename = jsonExportFilename
+    ? jsonExportFilename
+    : `clusters-block-${blockNumber}.json`;
+
+  fs.writeFileSync(filename, JSON.stringify(clusters, null, 2));
+  if (logging) console.timeEnd("exportClustersToJSON");
+};
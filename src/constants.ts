@@ -0,0 +1,9 @@
+export const POSITION_MANAGER = "0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1";
+
+export const REVERT_AUTOCOMPOUNDER =
+  "0x83681C14770b44361e21Faf91D8325423365eA5C".toLowerCase();
+
+// Uniswap V4 deployments on Base.
+export const V4_POOL_MANAGER = "0x498581fF718922c3f8e6A244956aF099B2652b2b";
+export const V4_POSITION_MANAGER = "0x7C5f5A4bBd8fD63184577525326123B519429bDc";
+export const V4_STATE_VIEW = "0xA3c0c9b65baD0b08107Aa264b0f3dB444b867A71";
@@ -0,0 +1,237 @@
+import { describe, expect, test } from "bun:test";
+import type { IndexerContext, PositionCustodian } from "./types";
+import {
+  createEventCustodian,
+  createOwnerLookupCustodian,
+  createStakingCustodian,
+  resolveCustodiedPositions,
+  resolveCustodiedShares,
+} from "./custodians";
+import { createMemoryIndexStore } from "./store";
+import { createRunReport } from "./report";
+import { ConfigurationError } from "./errors";
+
+const VAULT = "0x00000000000000000000000000000000000000ff";
+const PAIR = "0x00000000000000000000000000000000000000aa";
+const V3_MANAGER = "0x00000000000000000000000000000000000000cc";
+const V4_MANAGER = "0x00000000000000000000000000000000000000dd";
+const ALICE = "0x0000000000000000000000000000000000000001";
+const BOB = "0x0000000000000000000000000000000000000002";
+
+type MockLog = {
+  blockNumber: bigint;
+  eventName: string;
+  args: Record<string, unknown>;
+};
+
+// Answers ownerOf calls from owners, where a missing token id reverts, and
+// getLogs from logs, at chain head 1000.
+const mockContext = (
+  custodians: PositionCustodian[],
+  obj: { owners?: Map<bigint, string>; logs?: MockLog[] } = {}
+) => {
+  const report = createRunReport();
+  const ctx = {
+    provider: {
+      getBlock: async () => ({ number: 1000n }),
+      multicall: async ({ contracts }: { contracts: { args: [bigint] }[] }) =>
+        contracts.map(({ args: [tokenId] }) =>
+          obj.owners?.has(tokenId)
+            ? { status: "success", result: obj.owners.get(tokenId) }
+            : { status: "failure", error: new Error("execution reverted") }
+        ),
+      getLogs: async (request: { fromBlock: bigint; toBlock: bigint }) =>
+        (obj.logs ?? []).filter(
+          (log) =>
+            log.blockNumber >= request.fromBlock &&
+            log.blockNumber <= request.toBlock
+        ),
+    },
+    store: createMemoryIndexStore(),
+    tokens: [],
+    custodians,
+    report,
+  } as unknown as IndexerContext;
+  return { ctx, report };
+};
+
+describe("createOwnerLookupCustodian", () => {
+  test("reads depositors and reports token ids it cannot resolve", async () => {
+    const custodian = createOwnerLookupCustodian({
+      address: VAULT,
+      name: "Vault",
+    });
+    const { ctx, report } = mockContext([custodian], {
+      owners: new Map([[1n, ALICE]]),
+    });
+
+    expect(
+      await custodian.resolveOwners!(ctx, 100, [1n, 2n], V4_MANAGER)
+    ).toEqual(new Map([[1n, ALICE]]));
+    expect(report.failedTokenIds).toEqual([
+      {
+        chainId: 8453,
+        positionManager: V4_MANAGER,
+        tokenId: 2n,
+        reason: "Vault ownerOf() failed: Error: execution reverted",
+      },
+    ]);
+  });
+});
+
+describe("createEventCustodian", () => {
+  const custodian = createEventCustodian({
+    address: VAULT,
+    name: "Vault",
+    depositEvent:
+      "event Deposit(uint256 indexed tokenId, address indexed owner)",
+    withdrawEvent: "event Withdraw(uint256 indexed tokenId)",
+  });
+  const logs = [
+    {
+      blockNumber: 10n,
+      eventName: "Deposit",
+      args: { tokenId: 1n, owner: ALICE },
+    },
+    {
+      blockNumber: 20n,
+      eventName: "Deposit",
+      args: { tokenId: 2n, owner: BOB },
+    },
+    { blockNumber: 30n, eventName: "Withdraw", args: { tokenId: 1n } },
+  ];
+
+  test("replays deposits and withdrawals up to the block", async () => {
+    const { ctx } = mockContext([custodian], { logs });
+
+    expect(
+      await custodian.resolveOwners!(ctx, 25, [1n, 2n], V3_MANAGER)
+    ).toEqual(
+      new Map([
+        [1n, ALICE],
+        [2n, BOB],
+      ])
+    );
+    expect(
+      await custodian.resolveOwners!(ctx, 40, [1n, 2n], V3_MANAGER)
+    ).toEqual(new Map([[2n, BOB]]));
+  });
+
+  test("rejects events without the configured arguments", () => {
+    expect(() =>
+      createEventCustodian({
+        address: VAULT,
+        name: "Vault",
+        depositEvent: "event Deposit(uint256 indexed tokenId, address owner)",
+        ownerArg: "depositor",
+      })
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe("createStakingCustodian", () => {
+  const gauge = createStakingCustodian({
+    address: VAULT,
+    name: "Gauge",
+    pairAddress: PAIR,
+    depositEvent:
+      "event Deposit(address indexed from, address indexed to, uint256 amount)",
+    withdrawEvent: "event Withdraw(address indexed from, uint256 amount)",
+    ownerArg: "to",
+    withdrawOwnerArg: "from",
+  });
+  const logs = [
+    {
+      blockNumber: 10n,
+      eventName: "Deposit",
+      args: { from: ALICE, to: ALICE, amount: 100n },
+    },
+    {
+      blockNumber: 20n,
+      eventName: "Deposit",
+      args: { from: ALICE, to: BOB, amount: 50n },
+    },
+    {
+      blockNumber: 30n,
+      eventName: "Withdraw",
+      args: { from: ALICE, amount: 100n },
+    },
+  ];
+
+  test("sums each staker's deposits less withdrawals", async () => {
+    const { ctx } = mockContext([gauge], { logs });
+
+    expect(await gauge.resolveShares!(ctx, 20, PAIR)).toEqual(
+      new Map([
+        [ALICE, 100n],
+        [BOB, 50n],
+      ])
+    );
+    expect(await gauge.resolveShares!(ctx, 30, PAIR)).toEqual(
+      new Map([[BOB, 50n]])
+    );
+    expect(await gauge.resolveShares!(ctx, 30, V3_MANAGER)).toEqual(new Map());
+  });
+
+  test("credits stakers with no more than the gauge holds", async () => {
+    const { ctx } = mockContext([gauge], { logs });
+
+    expect(
+      await resolveCustodiedShares(
+        ctx,
+        20,
+        PAIR,
+        new Map([
+          [VAULT, 120n],
+          [BOB, 5n],
+        ])
+      )
+    ).toEqual(
+      new Map([
+        [BOB, 25n],
+        [ALICE, 100n],
+      ])
+    );
+  });
+
+  test("rejects events without a staker or amount", () => {
+    expect(() =>
+      createStakingCustodian({
+        address: VAULT,
+        name: "Gauge",
+        pairAddress: PAIR,
+        depositEvent: "event Deposit(address indexed to, uint256 amount)",
+        withdrawEvent: "event Withdraw(address indexed from, uint256 value)",
+        ownerArg: "to",
+        withdrawOwnerArg: "from",
+      })
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe("resolveCustodiedPositions", () => {
+  test("moves positions to their depositors, for the custodian's position manager only", async () => {
+    const custodian = createOwnerLookupCustodian({
+      address: VAULT,
+      name: "Vault",
+      positionManager: V4_MANAGER,
+    });
+    const { ctx } = mockContext([custodian], {
+      owners: new Map([[1n, ALICE]]),
+    });
+    const holders = [
+      { address: VAULT, tokenIds: [1n, 2n] },
+      { address: ALICE, tokenIds: [3n] },
+    ];
+
+    expect(
+      await resolveCustodiedPositions(ctx, 100, holders, V4_MANAGER)
+    ).toEqual([
+      { address: VAULT, tokenIds: [2n] },
+      { address: ALICE, tokenIds: [3n, 1n] },
+    ]);
+    expect(
+      await resolveCustodiedPositions(ctx, 100, holders, V3_MANAGER)
+    ).toEqual(holders);
+  });
+});
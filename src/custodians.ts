@@ -0,0 +1,394 @@
+import {
+  parseAbi,
+  parseAbiItem,
+  type Abi,
+  type AbiEvent,
+  type Hex,
+} from "viem";
+import type { IndexerContext, LPHolder, PositionCustodian } from "./types";
+import { ConfigurationError } from "./errors";
+import { POSITION_MANAGER, REVERT_AUTOCOMPOUNDER } from "./constants";
+import { DEFAULT_CHAIN_ID, clampToChainTip, getChainId } from "./chains";
+import { reportFailedTokenId } from "./report";
+import { lockStreams } from "./store";
+
+const CHUNK_SIZE = 100;
+const BLOCK_INCREMENT = 2000n;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// For vaults that keep a tokenId => depositor mapping readable on-chain, like
+// the Revert auto-compounder's ownerOf.
+export const createOwnerLookupCustodian = (obj: {
+  address: string;
+  name: string;
+  functionName?: string;
+  positionManager?: string;
+}): PositionCustodian => {
+  const functionName = obj.functionName ?? "ownerOf";
+  const abi = parseAbi([
+    `function ${functionName}(uint256 tokenId) view returns (address)`,
+  ]);
+
+  return {
+    address: obj.address.toLowerCase(),
+    name: obj.name,
+    positionManager: obj.positionManager,
+    resolveOwners: async (ctx, blockNumber, tokenIds, positionManager) => {
+      const owners = new Map<bigint, string>();
+
+      for (let i = 0; i < tokenIds.length; i += CHUNK_SIZE) {
+        const chunk = tokenIds.slice(i, i + CHUNK_SIZE);
+        const results = await ctx.provider.multicall({
+          contracts: chunk.map((tokenId) => ({
+            address: obj.address as Hex,
+            abi: abi as Abi,
+            functionName,
+            args: [tokenId],
+          })),
+          blockNumber: BigInt(blockNumber),
+        });
+
+        results.forEach((result, index) => {
+          if (result.status === "success") {
+            owners.set(chunk[index], (result.result as string).toLowerCase());
+          } else {
+            reportFailedTokenId(
+              ctx,
+              positionManager,
+              chunk[index],
+              `${obj.name} ${functionName}() failed: ${result.error}`
+            );
+          }
+        });
+      }
+
+      return owners;
+    },
+  };
+};
+
+type CustodianEvent = {
+  blockNumber: number;
+  tokenId: bigint;
+  // Undefined for withdrawals.
+  owner?: string;
+};
+
+type StakeEvent = {
+  blockNumber: number;
+  owner: string;
+  // Negative for withdrawals.
+  amount: bigint;
+};
+
+const custodianEventsStream = (address: string) =>
+  `custodian-events-${address.toLowerCase()}`;
+
+const requireArgs = (name: string, required: [AbiEvent, string][]) => {
+  for (const [event, arg] of required) {
+    if (!event.inputs.some((input) => input.name === arg)) {
+      throw new ConfigurationError(
+        `${name}: event ${event.name} has no argument ${arg}`
+      );
+    }
+  }
+};
+
+// Scans a custodian's events into its stream, up to the chain tip. Each
+// window is stored with its head, so an interrupted scan resumes after the
+// last complete window.
+const syncCustodianEvents = <T>(
+  ctx: IndexerContext,
+  blockNumber: number,
+  obj: {
+    address: string;
+    events: AbiEvent[];
+    fromBlock?: number;
+    toRecord: (
+      eventName: string,
+      args: Record<string, unknown>,
+      blockNumber: number
+    ) => T | undefined;
+  }
+) => {
+  const stream = custodianEventsStream(obj.address);
+
+  return lockStreams(ctx.store, [stream], async () => {
+    const head = ctx.store.head(stream);
+    if (head !== undefined && head >= blockNumber) return;
+
+    let currentBlock = BigInt(
+      head !== undefined ? head + 1 : obj.fromBlock ?? 0
+    );
+    const targetBlock = BigInt(await clampToChainTip(ctx, blockNumber));
+
+    while (currentBlock <= targetBlock) {
+      const endBlock =
+        currentBlock + BLOCK_INCREMENT > targetBlock
+          ? targetBlock
+          : currentBlock + BLOCK_INCREMENT;
+
+      const logs = await ctx.provider.getLogs({
+        address: obj.address as Hex,
+        events: obj.events,
+        fromBlock: currentBlock,
+        toBlock: endBlock,
+      });
+
+      const records: T[] = [];
+      for (const log of logs) {
+        const record = obj.toRecord(
+          log.eventName,
+          log.args as Record<string, unknown>,
+          Number(log.blockNumber)
+        );
+        if (record) records.push(record);
+      }
+
+      ctx.store.append(stream, Number(endBlock), records);
+      currentBlock = endBlock + 1n;
+    }
+  });
+};
+
+// For vaults that only reveal depositors through events. The deposit event
+// must carry the tokenId and the depositor; the withdraw event the tokenId.
+// Events are kept in the store, so each run only scans blocks after the last.
+export const createEventCustodian = (obj: {
+  address: string;
+  name: string;
+  depositEvent: string;
+  withdrawEvent?: string;
+  tokenIdArg?: string;
+  ownerArg?: string;
+  fromBlock?: number;
+  positionManager?: string;
+}): PositionCustodian => {
+  const depositEvent = parseAbiItem(obj.depositEvent) as AbiEvent;
+  const withdrawEvent = obj.withdrawEvent
+    ? (parseAbiItem(obj.withdrawEvent) as AbiEvent)
+    : undefined;
+  const tokenIdArg = obj.tokenIdArg ?? "tokenId";
+  const ownerArg = obj.ownerArg ?? "owner";
+
+  requireArgs(obj.name, [
+    [depositEvent, tokenIdArg],
+    [depositEvent, ownerArg],
+    ...(withdrawEvent
+      ? [[withdrawEvent, tokenIdArg] as [AbiEvent, string]]
+      : []),
+  ]);
+
+  const sync = (ctx: IndexerContext, blockNumber: number) =>
+    syncCustodianEvents<CustodianEvent>(ctx, blockNumber, {
+      address: obj.address,
+      events: withdrawEvent ? [depositEvent, withdrawEvent] : [depositEvent],
+      fromBlock: obj.fromBlock,
+      toRecord: (eventName, args, blockNumber) => {
+        const tokenId = args[tokenIdArg];
+        if (typeof tokenId !== "bigint") return undefined;
+
+        const owner = args[ownerArg];
+        return {
+          blockNumber,
+          tokenId,
+          owner:
+            eventName === depositEvent.name && typeof owner === "string"
+              ? owner.toLowerCase()
+              : undefined,
+        };
+      },
+    });
+
+  return {
+    address: obj.address.toLowerCase(),
+    name: obj.name,
+    positionManager: obj.positionManager,
+    resolveOwners: async (ctx, blockNumber, tokenIds) => {
+      await sync(ctx, blockNumber);
+
+      const wanted = new Set(tokenIds);
+      const owners = new Map<bigint, string>();
+      for (const event of ctx.store.read<CustodianEvent>(
+        custodianEventsStream(obj.address)
+      )) {
+        if (event.blockNumber > blockNumber || !wanted.has(event.tokenId)) {
+          continue;
+        }
+        if (event.owner) owners.set(event.tokenId, event.owner);
+        else owners.delete(event.tokenId);
+      }
+
+      return owners;
+    },
+  };
+};
+
+// For gauges and staking contracts that hold the shares of one V2-style pair.
+// Both events must carry the staker and the amount, e.g. an Aerodrome gauge's
+// Deposit(from, to, amount) with ownerArg "to" and Withdraw(from, amount)
+// with withdrawOwnerArg "from".
+export const createStakingCustodian = (obj: {
+  address: string;
+  name: string;
+  pairAddress: string;
+  depositEvent: string;
+  withdrawEvent: string;
+  ownerArg?: string;
+  withdrawOwnerArg?: string;
+  amountArg?: string;
+  fromBlock?: number;
+}): PositionCustodian => {
+  const depositEvent = parseAbiItem(obj.depositEvent) as AbiEvent;
+  const withdrawEvent = parseAbiItem(obj.withdrawEvent) as AbiEvent;
+  const ownerArg = obj.ownerArg ?? "owner";
+  const withdrawOwnerArg = obj.withdrawOwnerArg ?? ownerArg;
+  const amountArg = obj.amountArg ?? "amount";
+
+  requireArgs(obj.name, [
+    [depositEvent, ownerArg],
+    [depositEvent, amountArg],
+    [withdrawEvent, withdrawOwnerArg],
+    [withdrawEvent, amountArg],
+  ]);
+
+  const sync = (ctx: IndexerContext, blockNumber: number) =>
+    syncCustodianEvents<StakeEvent>(ctx, blockNumber, {
+      address: obj.address,
+      events: [depositEvent, withdrawEvent],
+      fromBlock: obj.fromBlock,
+      toRecord: (eventName, args, blockNumber) => {
+        const deposit = eventName === depositEvent.name;
+        const owner = args[deposit ? ownerArg : withdrawOwnerArg];
+        const amount = args[amountArg];
+        if (typeof owner !== "string" || typeof amount !== "bigint") {
+          return undefined;
+        }
+        return {
+          blockNumber,
+          owner: owner.toLowerCase(),
+          amount: deposit ? amount : -amount,
+        };
+      },
+    });
+
+  return {
+    address: obj.address.toLowerCase(),
+    name: obj.name,
+    resolveShares: async (ctx, blockNumber, pairAddress) => {
+      const stakes = new Map<string, bigint>();
+      if (pairAddress.toLowerCase() !== obj.pairAddress.toLowerCase()) {
+        return stakes;
+      }
+      await sync(ctx, blockNumber);
+
+      for (const event of ctx.store.read<StakeEvent>(
+        custodianEventsStream(obj.address)
+      )) {
+        if (event.blockNumber > blockNumber) continue;
+        stakes.set(event.owner, (stakes.get(event.owner) ?? 0n) + event.amount);
+      }
+      for (const [owner, amount] of stakes) {
+        if (amount <= 0n) stakes.delete(owner);
+      }
+
+      return stakes;
+    },
+  };
+};
+
+export const REVERT_AUTOCOMPOUNDER_CUSTODIAN = createOwnerLookupCustodian({
+  address: REVERT_AUTOCOMPOUNDER,
+  name: "Revert auto-compounder",
+  positionManager: POSITION_MANAGER,
+});
+
+// The Revert auto-compounder default only applies on Base.
+export const getCustodians = (ctx: IndexerContext) =>
+  ctx.custodians ??
+  (getChainId(ctx) === DEFAULT_CHAIN_ID
+    ? [REVERT_AUTOCOMPOUNDER_CUSTODIAN]
+    : []);
+
+// Moves positions of positionManager held by known custodians to the
+// depositors they hold them for. Positions whose depositor cannot be resolved
+// stay with the custodian, which is excluded by default.
+export const resolveCustodiedPositions = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  lpHolders: LPHolder[],
+  positionManager: string
+): Promise<LPHolder[]> => {
+  const holders = new Map(
+    lpHolders.map((holder) => [
+      holder.address.toLowerCase(),
+      new Set(holder.tokenIds),
+    ])
+  );
+
+  for (const custodian of getCustodians(ctx)) {
+    if (
+      !custodian.resolveOwners ||
+      (custodian.positionManager &&
+        custodian.positionManager.toLowerCase() !==
+          positionManager.toLowerCase())
+    ) {
+      continue;
+    }
+    const held = holders.get(custodian.address);
+    if (!held || held.size === 0) continue;
+
+    const owners = await custodian.resolveOwners(
+      ctx,
+      blockNumber,
+      Array.from(held),
+      positionManager
+    );
+
+    for (const [tokenId, owner] of owners) {
+      if (owner === ZERO_ADDRESS) continue;
+
+      held.delete(tokenId);
+      if (!holders.has(owner)) holders.set(owner, new Set());
+      holders.get(owner)!.add(tokenId);
+    }
+  }
+
+  return Array.from(holders.entries())
+    .map(([address, tokenIds]) => ({
+      address,
+      tokenIds: Array.from(tokenIds),
+    }))
+    .filter((holder) => holder.tokenIds.length > 0);
+};
+
+// Moves the LP shares of pairAddress staked with known custodians to their
+// stakers, up to what each custodian holds. Shares without a resolved staker
+// stay with the custodian, which is excluded by default.
+export const resolveCustodiedShares = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  pairAddress: string,
+  shares: Map<string, bigint>
+): Promise<Map<string, bigint>> => {
+  const result = new Map(shares);
+
+  for (const custodian of getCustodians(ctx)) {
+    let held = result.get(custodian.address) ?? 0n;
+    if (!custodian.resolveShares || held === 0n) continue;
+
+    const stakes = await custodian.resolveShares(ctx, blockNumber, pairAddress);
+    for (const [owner, amount] of stakes) {
+      const moved = amount < held ? amount : held;
+      if (owner === ZERO_ADDRESS || moved <= 0n) continue;
+
+      held -= moved;
+      result.set(owner, (result.get(owner) ?? 0n) + moved);
+    }
+
+    if (held > 0n) result.set(custodian.address, held);
+    else result.delete(custodian.address);
+  }
+
+  return result;
+};
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Balance } from "./types";
+import { diffSnapshots, readSnapshotCSV } from "./diff";
+import { snapshotToCSV } from "./api";
+import { ConfigurationError } from "./errors";
+
+const TOKEN = { address: "0x00000000000000000000000000000000000000aa" };
+const DECIMALS = new Map([[TOKEN.address, 18]]);
+
+const address = (i: number) => `0x${i.toString(16).padStart(40, "0")}`;
+
+const holder = (i: number, balance: bigint, lpBalance = 0n): Balance => ({
+  holderAddress: address(i),
+  balances: [
+    {
+      tokenAddress: TOKEN.address,
+      balance: balance * 10n ** 18n,
+      lpBalance: lpBalance * 10n ** 18n,
+      lpFees: 0n,
+      decimals: 18,
+    },
+  ],
+});
+
+// Writes rows of a snapshot CSV to a temporary file and reads them back.
+const readRows = (rows: string[], decimals = DECIMALS) => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "diff-test-"));
+  const filename = path.join(directory, "snapshot.csv");
+  try {
+    fs.writeFileSync(filename, rows.join("\n"));
+    return readSnapshotCSV(filename, [TOKEN], decimals);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+};
+
+describe("diffSnapshots", () => {
+  test("finds new, exited and changed holders, largest movement first", () => {
+    const diff = diffSnapshots(
+      [holder(1, 10n), holder(2, 5n), holder(3, 7n)],
+      [holder(1, 4n, 1n), holder(3, 7n), holder(4, 2n)],
+      [TOKEN],
+      { fromBlock: 10, toBlock: 20, topMovers: 2 }
+    );
+
+    expect(diff.newHolders).toEqual([address(4)]);
+    expect(diff.exitedHolders).toEqual([address(2)]);
+    expect(
+      diff.changes.map((change) => [
+        change.holderAddress,
+        change.status,
+        change.movement,
+      ])
+    ).toEqual([
+      [address(1), "changed", 7],
+      [address(2), "exited", 5],
+      [address(4), "new", 2],
+    ]);
+    expect(diff.changes[0].deltas[0]).toMatchObject({
+      balanceDelta: -6n * 10n ** 18n,
+      lpBalanceDelta: 10n ** 18n,
+    });
+    expect(diff.topMovers).toHaveLength(2);
+  });
+});
+
+describe("readSnapshotCSV", () => {
+  test("reads back what snapshotToCSV wrote", () => {
+    const holders = [holder(1, 10n, 3n), holder(2, 5n)];
+
+    expect(readRows(snapshotToCSV(holders, [TOKEN]).split("\n"))).toEqual(
+      holders.map((h) => ({
+        ...h,
+        balances: h.balances.map((balance) => ({ ...balance, chainId: 8453 })),
+      }))
+    );
+  });
+
+  test("leaves out rows that hold nothing, so their holders exit", () => {
+    const [header, ...rows] = snapshotToCSV(
+      [holder(1, 10n), holder(2, 5n)],
+      [TOKEN]
+    ).split("\n");
+    const before = readRows([header, ...rows]);
+    const after = readRows([header, rows[0], `${address(2)},0,0,0`]);
+
+    expect(after).toHaveLength(1);
+    expect(diffSnapshots(before, after, [TOKEN]).exitedHolders).toEqual([
+      address(2),
+    ]);
+  });
+
+  test("needs a balance column and decimals for every token", () => {
+    expect(() => readRows(["Holder Address", address(1)])).toThrow(
+      ConfigurationError
+    );
+    expect(() =>
+      readRows(snapshotToCSV([holder(1, 10n)], [TOKEN]).split("\n"), new Map())
+    ).toThrow(`No decimals given for ${TOKEN.address}`);
+  });
+});
@@ -0,0 +1,242 @@
+import * as fs from "fs";
+import { formatUnits, parseUnits } from "viem";
+import type {
+  Balance,
+  BalanceDelta,
+  HolderDiff,
+  SnapshotDiff,
+  Token,
+} from "./types";
+import { DEFAULT_CHAIN_ID } from "./chains";
+import { findTokenBalance, tokenLabel } from "./tokens";
+import { ConfigurationError } from "./errors";
+
+// Compares two snapshots holder by holder. A holder is new when it held
+// nothing before and exited when it holds nothing after.
+export const diffSnapshots = (
+  before: Balance[],
+  after: Balance[],
+  tokens: Token[],
+  options: { fromBlock?: number; toBlock?: number; topMovers?: number } = {}
+): SnapshotDiff => {
+  const beforeByHolder = new Map(
+    before.map((holder) => [holder.holderAddress.toLowerCase(), holder])
+  );
+  const afterByHolder = new Map(
+    after.map((holder) => [holder.holderAddress.toLowerCase(), holder])
+  );
+  const holderAddresses = new Set([
+    ...beforeByHolder.keys(),
+    ...afterByHolder.keys(),
+  ]);
+
+  const changes: HolderDiff[] = [];
+
+  for (const holderAddress of holderAddresses) {
+    const holderBefore = beforeByHolder.get(holderAddress);
+    const holderAfter = afterByHolder.get(holderAddress);
+
+    const deltas: BalanceDelta[] = tokens.flatMap((token) => {
+      const balanceBefore = findTokenBalance(
+        holderBefore?.balances ?? [],
+        token
+      );
+      const balanceAfter = findTokenBalance(holderAfter?.balances ?? [], token);
+      const decimals = balanceAfter?.decimals ?? balanceBefore?.decimals;
+      if (decimals === undefined) return [];
+
+      const delta = {
+        tokenAddress: token.address,
+        chainId: token.chainId ?? DEFAULT_CHAIN_ID,
+        decimals,
+        balanceBefore: balanceBefore?.balance ?? 0n,
+        balanceAfter: balanceAfter?.balance ?? 0n,
+        balanceDelta:
+          (balanceAfter?.balance ?? 0n) - (balanceBefore?.balance ?? 0n),
+        lpBalanceBefore: balanceBefore?.lpBalance ?? 0n,
+        lpBalanceAfter: balanceAfter?.lpBalance ?? 0n,
+        lpBalanceDelta:
+          (balanceAfter?.lpBalance ?? 0n) - (balanceBefore?.lpBalance ?? 0n),
+      };
+      return delta.balanceDelta !== 0n || delta.lpBalanceDelta !== 0n
+        ? [delta]
+        : [];
+    });
+
+    if (deltas.length === 0) continue;
+
+    const abs = (value: bigint) => (value < 0n ? -value : value);
+    changes.push({
+      holderAddress,
+      status: !holderBefore ? "new" : !holderAfter ? "exited" : "changed",
+      movement: deltas.reduce(
+        (sum, delta) =>
+          sum +
+          Number(formatUnits(abs(delta.balanceDelta), delta.decimals)) +
+          Number(formatUnits(abs(delta.lpBalanceDelta), delta.decimals)),
+        0
+      ),
+      deltas,
+    });
+  }
+
+  changes.sort((a, b) => b.movement - a.movement);
+
+  return {
+    fromBlock: options.fromBlock,
+    toBlock: options.toBlock,
+    newHolders: changes
+      .filter((change) => change.status === "new")
+      .map((change) => change.holderAddress),
+    exitedHolders: changes
+      .filter((change) => change.status === "exited")
+      .map((change) => change.holderAddress),
+    changes,
+    topMovers: changes.slice(0, options.topMovers ?? 20),
+  };
+};
+
+// Reads a file written by exportSnapshotToCSV back into balances. The CSV
+// holds formatted amounts, so the decimals of each token are needed, keyed
+// like the token labels in its header.
+export const readSnapshotCSV = (
+  filename: string,
+  tokens: Token[],
+  decimals: Map<string, number>
+): Balance[] => {
+  const [header, ...lines] = fs
+    .readFileSync(filename, "utf8")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+  const columns = header.split(",");
+
+  const tokenColumns = tokens.map((token) => {
+    const label = tokenLabel(tokens, token);
+    const balanceColumn = columns.indexOf(`${label} Token Balance`);
+    const lpBalanceColumn = columns.indexOf(`${label} LP Balance`);
+    const lpFeesColumn = columns.indexOf(`${label} LP Fees`);
+    if (balanceColumn === -1) {
+      throw new ConfigurationError(
+        `${filename} has no balance column for ${label}`
+      );
+    }
+    const tokenDecimals = decimals.get(label.toLowerCase());
+    if (tokenDecimals === undefined) {
+      throw new ConfigurationError(`No decimals given for ${label}`);
+    }
+    return {
+      token,
+      balanceColumn,
+      lpBalanceColumn,
+      lpFeesColumn,
+      decimals: tokenDecimals,
+    };
+  });
+
+  const amount = (value: string | undefined, tokenDecimals: number) =>
+    value === undefined || value === "" ? 0n : parseUnits(value, tokenDecimals);
+
+  // Rows that hold nothing are left out, so their holders count as exited.
+  return lines
+    .map((line) => {
+      const values = line.split(",");
+      return {
+        holderAddress: values[0],
+        balances: tokenColumns
+          .map((column) => ({
+            tokenAddress: column.token.address,
+            chainId: column.token.chainId ?? DEFAULT_CHAIN_ID,
+            balance: amount(values[column.balanceColumn], column.decimals),
+            lpBalance: amount(values[column.lpBalanceColumn], column.decimals),
+            lpFees: amount(values[column.lpFeesColumn], column.decimals),
+            decimals: column.decimals,
+          }))
+          .filter(
+            (balance) =>
+              balance.balance > 0n ||
+              balance.lpBalance > 0n ||
+              balance.lpFees > 0n
+          ),
+      };
+    })
+    .filter((holder) => holder.balances.length > 0);
+};
+
+export const exportSnapshotDiffToCSV = async (
+  diff: SnapshotDiff,
+  tokens: Token[],
+  csvExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportSnapshotDiffToCSV");
+
+  const headers = [
+    "Holder Address",
+    "Status",
+    "Movement",
+    ...tokens.flatMap((token) => [
+      `${tokenLabel(tokens, token)} Token Balance Before`,
+      `${tokenLabel(tokens, token)} Token Balance After`,
+      `${tokenLabel(tokens, token)} Token Balance Delta`,
+      `${tokenLabel(tokens, token)} LP Balance Before`,
+      `${tokenLabel(tokens, token)} LP Balance After`,
+      `${tokenLabel(tokens, token)} LP Balance Delta`,
+    ]),
+  ];
+
+  const rows = diff.changes.map((change) => [
+    change.holderAddress,
+    change.status,
+    change.movement,
+    ...tokens.flatMap((token) => {
+      const delta = change.deltas.find(
+        (d) =>
+          d.tokenAddress.toLowerCase() === token.address.toLowerCase() &&
+          d.chainId === (token.chainId ?? DEFAULT_CHAIN_ID)
+      );
+      if (!delta) return ["0", "0", "0", "0", "0", "0"];
+      return [
+        delta.balanceBefore,
+        delta.balanceAfter,
+        delta.balanceDelta,
+        delta.lpBalanceBefore,
+        delta.lpBalanceAfter,
+        delta.lpBalanceDelta,
+      ].map((value) => formatUnits(value, delta.decimals));
+    }),
+  ]);
+
+  const csvContent = [
+    headers.join(","),
+    ...rows.map((row) => row.join(",")),
+  ].join("\n");
+
+  const filename = csvExportFilename
+    ? csvExportFilename
+    : `snapshot-diff-${diff.fromBlock}-${diff.toBlock}.csv`;
+
+  fs.writeFileSync(filename, csvContent);
+  if (logging) console.timeEnd("exportSnapshotDiffToCSV");
+};
+
+export const exportSnapshotDiffToJSON = async (
+  diff: SnapshotDiff,
+  jsonExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportSnapshotDiffToJSON");
+
+  const filename = jsonExportFilename
+    ? jsonExportFilename
+    : `snapshot-diff-${diff.fromBlock}-${diff.toBlock}.json`;
+
+  fs.writeFileSync(
+    filename,
+    JSON.stringify(
+      diff,
+      (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+      2
+    )
+  );
+  if (logging) console.timeEnd("exportSnapshotDiffToJSON");
+};
@@ -0,0 +1,220 @@
+import { describe, expect, test } from "bun:test";
+import type { Balance, MerkleTreeDump } from "./types";
+import {
+  allocate,
+  distributionFromAllocation,
+  verifyDistribution,
+  verifyProof,
+} from "./distribution";
+import { ConfigurationError } from "./errors";
+
+const A = "0x1111111111111111111111111111111111111111";
+const B = "0x2222222222222222222222222222222222222222";
+const C = "0x3333333333333333333333333333333333333333";
+
+const ALLOCATION = [
+  { address: A, amount: 5_000_000_000_000_000_000n },
+  { address: B, amount: 2_500_000_000_000_000_000n },
+  { address: C, amount: 1n },
+];
+
+// Produced by StandardMerkleTree.of(values, ["address", "uint256"]) of
+// @openzeppelin/merkle-tree 1.x for the same values.
+const OPENZEPPELIN_DUMP: MerkleTreeDump = {
+  format: "standard-v1",
+  leafEncoding: ["address", "uint256"],
+  tree: [
+    "0xd673f832e8ae578ea16450035956e30f27212b91d6cd26edbef07c90546302ff",
+    "0x8d00bd8d33bd92e6ade0ba2d87958d59727515200df528502b93c99dd3fa0256",
+    "0xeb02c421cfa48976e66dfb29120745909ea3a0f843456c263cf8f1253483e283",
+    "0xc3d2e29c8ded2ca4aa700f83273d097a3fb1683f4b5f291a8ee7d74ff26fc6b3",
+    "0xb92c48e9d7abe27fd8dfd6b5dfdbfb1c9a463f80c712b66f3a5180a090cccafc",
+  ],
+  values: [
+    { value: [A, "5000000000000000000"], treeIndex: 2 },
+    { value: [B, "2500000000000000000"], treeIndex: 4 },
+    { value: [C, "1"], treeIndex: 3 },
+  ],
+};
+
+describe("distributionFromAllocation", () => {
+  test("builds the same tree as OpenZeppelin's StandardMerkleTree", () => {
+    const distribution = distributionFromAllocation(ALLOCATION);
+
+    expect(distribution.tree).toEqual(OPENZEPPELIN_DUMP);
+    expect(distribution.root).toBe(OPENZEPPELIN_DUMP.tree[0]);
+    expect(distribution.totalAmount).toBe(7_500_000_000_000_000_001n);
+    expect(distribution.claims.map((claim) => claim.proof)).toEqual([
+      ["0x8d00bd8d33bd92e6ade0ba2d87958d59727515200df528502b93c99dd3fa0256"],
+      [
+        "0xc3d2e29c8ded2ca4aa700f83273d097a3fb1683f4b5f291a8ee7d74ff26fc6b3",
+        "0xeb02c421cfa48976e66dfb29120745909ea3a0f843456c263cf8f1253483e283",
+      ],
+      [
+        "0xb92c48e9d7abe27fd8dfd6b5dfdbfb1c9a463f80c712b66f3a5180a090cccafc",
+        "0xeb02c421cfa48976e66dfb29120745909ea3a0f843456c263cf8f1253483e283",
+      ],
+    ]);
+  });
+
+  test("uses the leaf as the root of a single claim", () => {
+    const distribution = distributionFromAllocation([
+      { address: A, amount: 100n },
+    ]);
+
+    expect(distribution.root).toBe(
+      "0x922c8389ffeb7a618b1f9fe2e9a75c76d86291502713033e5951dbad45b3fc31"
+    );
+    expect(distribution.claims[0].proof).toEqual([]);
+  });
+
+  test("gives each address one leaf and leaves out zero amounts", () => {
+    const distribution = distributionFromAllocation([
+      { address: A, amount: 60n },
+      { address: A.toUpperCase().replace("0X", "0x"), amount: 40n },
+      { address: B, amount: 0n },
+    ]);
+
+    expect(distribution.claims).toHaveLength(1);
+    expect(distribution.claims[0]).toMatchObject({ address: A, amount: 100n });
+    expect(verifyProof(distribution.root, A, 100n, [])).toBe(true);
+  });
+
+  test("rejects negative amounts and empty distributions", () => {
+    expect(() =>
+      distributionFromAllocation([{ address: A, amount: -1n }])
+    ).toThrow(ConfigurationError);
+    expect(() =>
+      distributionFromAllocation([{ address: A, amount: 0n }])
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe("verifyDistribution", () => {
+  test("accepts a distribution of the intended allocation", () => {
+    const distribution = distributionFromAllocation(ALLOCATION);
+
+    expect(verifyDistribution(distribution, ALLOCATION)).toEqual({
+      valid: true,
+      totalAmount: 7_500_000_000_000_000_001n,
+      intendedAmount: 7_500_000_000_000_000_001n,
+      errors: [],
+    });
+  });
+
+  test("finds changed amounts, proofs and missing claims", () => {
+    const distribution = distributionFromAllocation(ALLOCATION);
+    const tampered = {
+      ...distribution,
+      claims: [
+        { ...distribution.claims[0], amount: 6_000_000_000_000_000_000n },
+        { ...distribution.claims[1], proof: distribution.claims[2].proof },
+      ],
+    };
+
+    expect(verifyDistribution(tampered, ALLOCATION).errors).toEqual([
+      `Invalid proof for ${A}`,
+      `${A} claims 6000000000000000000, intended 5000000000000000000`,
+      `Invalid proof for ${B}`,
+      `${C} is missing, intended 1`,
+      "Claims add up to 8500000000000000000, distribution total is 7500000000000000001",
+      "Claims add up to 8500000000000000000, intended total is 7500000000000000001",
+    ]);
+  });
+});
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+
+// Balances of an 18-decimal token, whose weights are the balances in wei.
+const holder = (
+  holderAddress: string,
+  balance: bigint,
+  lpBalance = 0n
+): Balance => ({
+  holderAddress,
+  balances: [
+    { tokenAddress: TOKEN, balance, lpBalance, lpFees: 0n, decimals: 18 },
+  ],
+});
+
+const amounts = (payouts: { address: string; amount: bigint }[]) =>
+  Object.fromEntries(payouts.map((payout) => [payout.address, payout.amount]));
+
+describe("allocate", () => {
+  test("splits pro rata and hands leftover wei to the lowest addresses", () => {
+    const payouts = allocate(
+      [holder(C, 1n), holder(B, 1n), holder(A, 1n)],
+      10n
+    );
+
+    expect(amounts(payouts)).toEqual({ [A]: 4n, [B]: 3n, [C]: 3n });
+    expect(payouts[0].address).toBe(A);
+  });
+
+  test("leaves out holders below minHolding", () => {
+    const payouts = allocate([holder(A, 1n), holder(B, 3n)], 100n, {
+      minHolding: 2n,
+    });
+
+    expect(amounts(payouts)).toEqual({ [B]: 100n });
+  });
+
+  test("caps holders and shares their excess with the rest", () => {
+    const payouts = allocate(
+      [holder(A, 1n), holder(B, 3n), holder(C, 16n)],
+      100n,
+      { cap: 50n }
+    );
+
+    // Without the cap C would get 80; A and B split the other 50 as 1:3.
+    expect(amounts(payouts)).toEqual({ [A]: 13n, [B]: 37n, [C]: 50n });
+  });
+
+  test("raises holders to the floor at the expense of the rest", () => {
+    const payouts = allocate(
+      [holder(A, 1n), holder(B, 1n), holder(C, 98n)],
+      100n,
+      { floor: 10n }
+    );
+
+    expect(amounts(payouts)).toEqual({ [A]: 10n, [B]: 10n, [C]: 80n });
+  });
+
+  test("fills to a level where floor and cap both bind", () => {
+    const payouts = allocate(
+      [holder(A, 1n), holder(B, 10n), holder(C, 20n), holder(TOKEN, 1000n)],
+      1000n,
+      { floor: 100n, cap: 400n }
+    );
+
+    // At 20 per unit of weight B and C are free; the rest of the 1000 after
+    // A's floor and the cap is split 1:2 between them.
+    expect(amounts(payouts)).toEqual({
+      [A]: 100n,
+      [B]: 167n,
+      [C]: 333n,
+      [TOKEN]: 400n,
+    });
+  });
+
+  test("weighs LP amounts and tokens by their multipliers", () => {
+    const payouts = allocate([holder(A, 10n, 20n), holder(B, 10n)], 100n, {
+      lpWeight: 0.5,
+      tokenMultipliers: { [TOKEN]: 2 },
+    });
+
+    expect(payouts.map((payout) => payout.weight)).toEqual([40n, 20n]);
+    expect(amounts(payouts)).toEqual({ [A]: 67n, [B]: 33n });
+  });
+
+  test("rejects floors and caps that cannot add up to the total", () => {
+    const holders = [holder(A, 1n), holder(B, 1n)];
+
+    expect(() => allocate(holders, 100n, { floor: 60n })).toThrow(
+      ConfigurationError
+    );
+    expect(() => allocate(holders, 100n, { cap: 40n })).toThrow(
+      ConfigurationError
+    );
+  });
+});
@@ -0,0 +1,535 @@
+import * as fs from "fs";
+import {
+  concat,
+  encodeAbiParameters,
+  formatUnits,
+  getAddress,
+  keccak256,
+  type Hex,
+} from "viem";
+import type {
+  Allocation,
+  AllocationRule,
+  AllocationRules,
+  Balance,
+  Distribution,
+  DistributionVerification,
+  LPWeight,
+  MerkleTreeDump,
+  Payout,
+  Token,
+  Winner,
+} from "./types";
+import { snapshotTokenCells, snapshotTokenHeaders } from "./tokens";
+import { companionFilename } from "./utils";
+import { ConfigurationError } from "./errors";
+import { getTokenMultiplier } from "./weighting";
+
+const LEAF_ENCODING: MerkleTreeDump["leafEncoding"] = ["address", "uint256"];
+
+// Fixed point for lpWeight multipliers, which are plain numbers.
+const WEIGHT_PRECISION = 1_000_000n;
+
+const toWeight = (amount: bigint, decimals: number) =>
+  decimals <= 18
+    ? amount * 10n ** BigInt(18 - decimals)
+    : amount / 10n ** BigInt(decimals - 18);
+
+const scaleByLPWeight = (amount: bigint, lpWeight: number) =>
+  (amount * BigInt(Math.round(lpWeight * Number(WEIGHT_PRECISION)))) /
+  WEIGHT_PRECISION;
+
+// A holder's weight in wei at 18 decimals: token balances plus LP amounts and
+// fees times lpWeight, each token times its multiplier, summed across tokens.
+export const holderWeight = (
+  holder: Balance,
+  lpWeight: LPWeight = 1,
+  tokenMultipliers?: Record<string, number>
+) =>
+  holder.balances.reduce((sum, balance) => {
+    const lpAmount =
+      typeof lpWeight === "number"
+        ? scaleByLPWeight(balance.lpBalance + balance.lpFees, lpWeight)
+        : balance.lpPositions
+        ? balance.lpPositions.reduce(
+            (lpSum, position) =>
+              lpSum +
+              scaleByLPWeight(
+                position.amount + position.fees,
+                position.inRange ? lpWeight.inRange : lpWeight.outOfRange
+              ),
+            0n
+          )
+        : scaleByLPWeight(balance.lpBalance + balance.lpFees, lpWeight.inRange);
+    return (
+      sum +
+      scaleByLPWeight(
+        toWeight(balance.balance + lpAmount, balance.decimals),
+        getTokenMultiplier(tokenMultipliers, balance)
+      )
+    );
+  }, 0n);
+
+// Splits totalAmount by weight, rounding down, then hands the wei left over
+// to the largest remainders so the amounts add up to totalAmount exactly.
+// Ties go to the lower address.
+export const splitProRata = (
+  weights: { address: string; weight: bigint }[],
+  totalAmount: bigint
+): Allocation => {
+  const totalWeight = weights.reduce((sum, entry) => sum + entry.weight, 0n);
+  if (totalWeight === 0n) return [];
+
+  const shares = weights.map((entry) => ({
+    address: entry.address,
+    amount: (totalAmount * entry.weight) / totalWeight,
+    remainder: (totalAmount * entry.weight) % totalWeight,
+  }));
+
+  let leftover =
+    totalAmount - shares.reduce((sum, share) => sum + share.amount, 0n);
+  const byRemainder = [...shares].sort((a, b) =>
+    a.remainder !== b.remainder
+      ? a.remainder > b.remainder
+        ? -1
+        : 1
+      : a.address.toLowerCase() < b.address.toLowerCase()
+      ? -1
+      : 1
+  );
+  for (const share of byRemainder) {
+    if (leftover === 0n) break;
+    share.amount += 1n;
+    leftover -= 1n;
+  }
+
+  return shares.map(({ address, amount }) => ({ address, amount }));
+};
+
+// Prices per unit of weight, as fractions, at which a holder reaches the floor
+// or the cap.
+type Breakpoint = { numerator: bigint; denominator: bigint };
+
+const compareBreakpoints = (a: Breakpoint, b: Breakpoint) => {
+  const left = a.numerator * b.denominator;
+  const right = b.numerator * a.denominator;
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+// Water-filling: every holder gets price * weight, clamped between floor and
+// cap, with the one price at which the amounts add up to totalAmount. The
+// holders between floor and cap then split what is left pro rata, so the
+// total is kept to the wei.
+const clampedSplit = (
+  weights: { address: string; weight: bigint }[],
+  totalAmount: bigint,
+  floor: bigint,
+  cap: bigint | undefined
+): Allocation => {
+  const toFloor = (w: bigint) => ({ numerator: floor, denominator: w });
+  const toCap = (w: bigint) => ({ numerator: cap!, denominator: w });
+
+  // Sum of the clamped amounts at a price, compared with totalAmount.
+  const compareTotal = (price: Breakpoint) => {
+    let fixed = 0n;
+    let freeWeight = 0n;
+    for (const { weight } of weights) {
+      if (compareBreakpoints(toFloor(weight), price) >= 0) fixed += floor;
+      else if (
+        cap !== undefined &&
+        compareBreakpoints(toCap(weight), price) <= 0
+      )
+        fixed += cap;
+      else freeWeight += weight;
+    }
+    const total = fixed * price.denominator + freeWeight * price.numerator;
+    const target = totalAmount * price.denominator;
+    return total < target ? -1 : total > target ? 1 : 0;
+  };
+
+  const breakpoints = weights
+    .flatMap(({ weight }) =>
+      cap !== undefined ? [toFloor(weight), toCap(weight)] : [toFloor(weight)]
+    )
+    .sort(compareBreakpoints);
+
+  // The first breakpoint at which the amounts reach totalAmount.
+  let low = 0;
+  let high = breakpoints.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (compareTotal(breakpoints[middle]) >= 0) high = middle;
+    else low = middle + 1;
+  }
+
+  const exact =
+    low < breakpoints.length && compareTotal(breakpoints[low]) === 0;
+  const lower = exact ? breakpoints[low] : breakpoints[low - 1];
+  const upper = exact ? breakpoints[low] : breakpoints[low];
+
+  const fixed: Allocation = [];
+  const free: typeof weights = [];
+  for (const entry of weights) {
+    if (upper && compareBreakpoints(toFloor(entry.weight), upper) >= 0) {
+      fixed.push({ address: entry.address, amount: floor });
+    } else if (
+      cap !== undefined &&
+      lower &&
+      compareBreakpoints(toCap(entry.weight), lower) <= 0
+    ) {
+      fixed.push({ address: entry.address, amount: cap });
+    } else {
+      free.push(entry);
+    }
+  }
+
+  const fixedAmount = fixed.reduce((sum, entry) => sum + entry.amount, 0n);
+  return [...fixed, ...splitProRata(free, totalAmount - fixedAmount)];
+};
+
+// Splits totalAmount across a snapshot by each holder's weight. Holders below
+// minHolding are left out; the rest get between floor and cap, and the
+// amounts always add up to totalAmount.
+export const allocate = (
+  snapshot: Balance[],
+  totalAmount: bigint,
+  rules: AllocationRules = {}
+): Payout[] => {
+  const floor = rules.floor ?? 0n;
+  const { cap } = rules;
+
+  const eligible = snapshot
+    .map((holder) => ({
+      address: holder.holderAddress,
+      weight: holderWeight(holder, rules.lpWeight, rules.tokenMultipliers),
+      holder,
+    }))
+    .filter(
+      (entry) => entry.weight > 0n && entry.weight >= (rules.minHolding ?? 0n)
+    );
+
+  if (totalAmount < 0n || floor < 0n || (cap !== undefined && cap < floor)) {
+    throw new ConfigurationError(
+      "totalAmount and floor must not be negative, and cap not below floor"
+    );
+  }
+  if (BigInt(eligible.length) * floor > totalAmount) {
+    throw new ConfigurationError(
+      `A floor of ${floor} for ${eligible.length} holders exceeds ${totalAmount}`
+    );
+  }
+  if (cap !== undefined && BigInt(eligible.length) * cap < totalAmount) {
+    throw new ConfigurationError(
+      `A cap of ${cap} for ${eligible.length} holders cannot reach ${totalAmount}`
+    );
+  }
+
+  const amounts = new Map(
+    clampedSplit(eligible, totalAmount, floor, cap).map((entry) => [
+      entry.address,
+      entry.amount,
+    ])
+  );
+
+  return eligible
+    .map(({ address, weight, holder }) => ({
+      address,
+      amount: amounts.get(address) ?? 0n,
+      weight,
+      holder,
+    }))
+    .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0));
+};
+
+export const payoutsToCSV = (
+  payouts: Payout[],
+  tokens: Token[],
+  decimals = 18
+) =>
+  [
+    [
+      "Holder Address",
+      "Weight",
+      "Payout",
+      ...snapshotTokenHeaders(tokens),
+    ].join(","),
+    ...payouts.map((payout) =>
+      [
+        payout.address,
+        formatUnits(payout.weight, 18),
+        formatUnits(payout.amount, decimals),
+        ...snapshotTokenCells(payout.holder, tokens),
+      ].join(",")
+    ),
+  ].join("\n");
+
+// decimals are the distributed token's.
+export const exportPayoutsToCSV = async (
+  payouts: Payout[],
+  tokens: Token[],
+  decimals = 18,
+  blockNumber?: number,
+  csvExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportPayoutsToCSV");
+
+  const filename = csvExportFilename
+    ? csvExportFilename
+    : `payouts-block-${blockNumber}.csv`;
+
+  fs.writeFileSync(filename, payoutsToCSV(payouts, tokens, decimals));
+  if (logging) console.timeEnd("exportPayoutsToCSV");
+};
+
+const toHolders = (recipients: Balance[] | Winner[]): Balance[] =>
+  recipients.map((recipient) =>
+    "holderAddress" in recipient
+      ? recipient
+      : {
+          holderAddress: recipient.address,
+          balances: recipient.balances.flatMap((holder) => holder.balances),
+        }
+  );
+
+// Applies a rule to a snapshot or to drawn winners. Addresses that get nothing
+// are left out.
+export const allocateByRule = (
+  recipients: Balance[] | Winner[],
+  rule: AllocationRule
+): Allocation => {
+  const holders = toHolders(recipients);
+
+  const allocation =
+    rule.type === "equal"
+      ? holders.map((holder) => ({
+          address: holder.holderAddress,
+          amount: rule.amount,
+        }))
+      : rule.type === "pro-rata"
+      ? allocate(holders, rule.totalAmount, rule)
+      : holders.map((holder) => ({
+          address: holder.holderAddress,
+          amount: rule.amountFor(holder),
+        }));
+
+  return allocation.filter((entry) => entry.amount > 0n);
+};
+
+const standardLeafHash = (address: string, amount: bigint) =>
+  keccak256(
+    keccak256(
+      encodeAbiParameters(
+        [{ type: "address" }, { type: "uint256" }],
+        [address as Hex, amount]
+      )
+    )
+  );
+
+const compareHex = (a: Hex, b: Hex) =>
+  BigInt(a) < BigInt(b) ? -1 : BigInt(a) > BigInt(b) ? 1 : 0;
+
+const hashPair = (a: Hex, b: Hex) =>
+  keccak256(concat(compareHex(a, b) <= 0 ? [a, b] : [b, a]));
+
+const siblingIndex = (index: number) =>
+  index % 2 === 1 ? index + 1 : index - 1;
+
+const parentIndex = (index: number) => Math.floor((index - 1) / 2);
+
+const getProof = (tree: Hex[], treeIndex: number) => {
+  const proof: Hex[] = [];
+  for (let index = treeIndex; index > 0; index = parentIndex(index)) {
+    proof.push(tree[siblingIndex(index)]);
+  }
+  return proof;
+};
+
+export const verifyProof = (
+  root: Hex,
+  address: string,
+  amount: bigint,
+  proof: Hex[]
+) =>
+  proof.reduce(hashPair, standardLeafHash(address, amount)).toLowerCase() ===
+  root.toLowerCase();
+
+// Builds the tree the way OpenZeppelin's StandardMerkleTree.of does: leaves
+// sorted by hash at the end of the array, each node the hash of its sorted
+// children, so the root and proofs work with MerkleProof.verify.
+const buildTree = (allocation: Allocation): MerkleTreeDump => {
+  const leaves = allocation
+    .map((entry, valueIndex) => ({
+      valueIndex,
+      hash: standardLeafHash(entry.address, entry.amount),
+    }))
+    .sort((a, b) => compareHex(a.hash, b.hash));
+
+  const tree: Hex[] = new Array(2 * leaves.length - 1);
+  const treeIndices: number[] = new Array(leaves.length);
+  leaves.forEach((leaf, i) => {
+    tree[tree.length - 1 - i] = leaf.hash;
+    treeIndices[leaf.valueIndex] = tree.length - 1 - i;
+  });
+  for (let i = tree.length - 1 - leaves.length; i >= 0; i--) {
+    tree[i] = hashPair(tree[2 * i + 1], tree[2 * i + 2]);
+  }
+
+  return {
+    format: "standard-v1",
+    leafEncoding: LEAF_ENCODING,
+    tree,
+    values: allocation.map((entry, i) => ({
+      value: [entry.address, entry.amount.toString()],
+      treeIndex: treeIndices[i],
+    })),
+  };
+};
+
+// Amounts of the same address are added up, so every address has one leaf.
+export const distributionFromAllocation = (
+  allocation: Allocation
+): Distribution => {
+  const amounts = new Map<string, bigint>();
+  for (const entry of allocation) {
+    if (entry.amount < 0n) {
+      throw new ConfigurationError(`Negative amount for ${entry.address}`);
+    }
+    const address = getAddress(entry.address);
+    amounts.set(address, (amounts.get(address) ?? 0n) + entry.amount);
+  }
+  const merged = Array.from(amounts, ([address, amount]) => ({
+    address,
+    amount,
+  })).filter((entry) => entry.amount > 0n);
+  if (merged.length === 0) {
+    throw new ConfigurationError("A distribution needs at least one claim");
+  }
+
+  const tree = buildTree(merged);
+
+  return {
+    root: tree.tree[0],
+    totalAmount: merged.reduce((sum, entry) => sum + entry.amount, 0n),
+    claims: merged.map((entry, i) => ({
+      ...entry,
+      proof: getProof(tree.tree, tree.values[i].treeIndex),
+    })),
+    tree,
+  };
+};
+
+export const createDistribution = (
+  recipients: Balance[] | Winner[],
+  rule: AllocationRule
+) => distributionFromAllocation(allocateByRule(recipients, rule));
+
+// Rebuilds the tree from its values and checks the root, every proof, and
+// each address's amount and the total against the intended allocation.
+export const verifyDistribution = (
+  distribution: Distribution,
+  intended: Allocation
+): DistributionVerification => {
+  const errors: string[] = [];
+
+  const rebuilt = buildTree(
+    distribution.tree.values.map(({ value: [address, amount] }) => ({
+      address,
+      amount: BigInt(amount),
+    }))
+  );
+  if (rebuilt.tree[0] !== distribution.root) {
+    errors.push(
+      `Tree root ${rebuilt.tree[0]} does not match ${distribution.root}`
+    );
+  }
+  if (rebuilt.tree.some((node, i) => node !== distribution.tree.tree[i])) {
+    errors.push("Tree nodes do not match its values");
+  }
+
+  const intendedAmounts = new Map<string, bigint>();
+  for (const entry of intended) {
+    const address = getAddress(entry.address);
+    intendedAmounts.set(
+      address,
+      (intendedAmounts.get(address) ?? 0n) + entry.amount
+    );
+  }
+
+  let totalAmount = 0n;
+  const claimed = new Set<string>();
+  for (const claim of distribution.claims) {
+    const address = getAddress(claim.address);
+    totalAmount += claim.amount;
+    claimed.add(address);
+
+    if (!verifyProof(distribution.root, address, claim.amount, claim.proof)) {
+      errors.push(`Invalid proof for ${address}`);
+    }
+    const expected = intendedAmounts.get(address) ?? 0n;
+    if (claim.amount !== expected) {
+      errors.push(`${address} claims ${claim.amount}, intended ${expected}`);
+    }
+  }
+  for (const [address, amount] of intendedAmounts) {
+    if (amount > 0n && !claimed.has(address)) {
+      errors.push(`${address} is missing, intended ${amount}`);
+    }
+  }
+
+  const intendedAmount = Array.from(intendedAmounts.values()).reduce(
+    (sum, amount) => sum + amount,
+    0n
+  );
+  if (totalAmount !== distribution.totalAmount) {
+    errors.push(
+      `Claims add up to ${totalAmount}, distribution total is ${distribution.totalAmount}`
+    );
+  }
+  if (totalAmount !== intendedAmount) {
+    errors.push(
+      `Claims add up to ${totalAmount}, intended total is ${intendedAmount}`
+    );
+  }
+
+  return { valid: errors.length === 0, totalAmount, intendedAmount, errors };
+};
+
+// Writes the root, total and claims keyed by address, plus the tree dump with
+// the "tree" suffix for StandardMerkleTree.load.
+export const exportDistributionToJSON = async (
+  distribution: Distribution,
+  blockNumber?: number,
+  jsonExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportDistributionToJSON");
+
+  const filename = jsonExportFilename
+    ? jsonExportFilename
+    : `distribution-block-${blockNumber}.json`;
+
+  fs.writeFileSync(
+    filename,
+    JSON.stringify(
+      {
+        root: distribution.root,
+        totalAmount: distribution.totalAmount.toString(),
+        claims: Object.fromEntries(
+          distribution.claims.map((claim) => [
+            claim.address,
+            { amount: claim.amount.toString(), proof: claim.proof },
+          ])
+        ),
+      },
+      null,
+      2
+    )
+  );
+  fs.writeFileSync(
+    companionFilename(filename, "tree"),
+    JSON.stringify(distribution.tree, null, 2)
+  );
+
+  if (logging) console.timeEnd("exportDistributionToJSON");
+};
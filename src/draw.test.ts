@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import type { DrawProof } from "./types";
+import {
+  assignTiers,
+  canonicalizeEntrants,
+  drawWithSeed,
+  runDrawSelfTest,
+  sampleWithoutReplacement,
+  validateTierWinners,
+  verifyDraw,
+} from "./draw";
+import { ConfigurationError } from "./errors";
+
+const SEED = `0x${"ab".repeat(32)}` as const;
+
+const address = (i: number) => `0x${i.toString(16).padStart(40, "0")}`;
+
+const ENTRANTS = canonicalizeEntrants(
+  [1, 2, 3, 4, 5, 6].map((i) => ({ address: address(i), weight: i * 10 }))
+);
+
+const proof = (version: string, winners: string[]): DrawProof => ({
+  version,
+  snapshotBlock: 100,
+  seed: SEED,
+  lpWeight: 1,
+  numberOfWinners: 3,
+  entrants: ENTRANTS.map((entrant) => ({
+    address: entrant.address,
+    weight: entrant.weight.toString(),
+  })),
+  winners,
+});
+
+describe("drawWithSeed", () => {
+  test("picks the same winners for a fixed seed", () => {
+    expect(drawWithSeed(ENTRANTS, 3, SEED)).toEqual([
+      address(2),
+      address(5),
+      address(6),
+    ]);
+  });
+
+  test("gives each entrant a key that does not depend on the others", () => {
+    const withoutFourth = ENTRANTS.filter(
+      (entrant) => entrant.address !== address(4)
+    );
+    expect(drawWithSeed(withoutFourth, 3, SEED)).toEqual([
+      address(2),
+      address(5),
+      address(6),
+    ]);
+  });
+
+  test("never picks entrants without weight", () => {
+    const entrants = ENTRANTS.map((entrant) => ({
+      ...entrant,
+      weight: entrant.address === address(6) ? entrant.weight : 0,
+    }));
+    expect(drawWithSeed(entrants, 3, SEED)).toEqual([address(6)]);
+  });
+});
+
+describe("verifyDraw", () => {
+  test("replays v2 proofs", async () => {
+    const result = await verifyDraw(
+      proof("daosworld-draw-v2", [address(2), address(5), address(6)])
+    );
+    expect(result).toEqual({
+      valid: true,
+      winners: [address(2), address(5), address(6)],
+      errors: [],
+    });
+  });
+
+  // Winners as drawn by the v1 engine, before Efraimidis–Spirakis sampling.
+  test("replays v1 proofs", async () => {
+    const result = await verifyDraw(
+      proof("daosworld-draw-v1", [address(4), address(6), address(2)])
+    );
+    expect(result.valid).toBe(true);
+  });
+
+  test("rejects tampered winners and unknown versions", async () => {
+    const tampered = await verifyDraw(
+      proof("daosworld-draw-v2", [address(1), address(5), address(6)])
+    );
+    expect(tampered.errors).toEqual([
+      "Replayed winners do not match the proof",
+    ]);
+
+    const unknown = await verifyDraw(proof("daosworld-draw-v0", []));
+    expect(unknown.valid).toBe(false);
+  });
+});
+
+describe("sampleWithoutReplacement", () => {
+  test("picks the largest keys ln(u) / w in key order", () => {
+    const uniforms = [0.5, 0.9, 0.1, 0.9];
+    expect(
+      sampleWithoutReplacement([1, 1, 10, 2], 4, (index) => uniforms[index])
+    ).toEqual([3, 1, 2, 0]);
+  });
+
+  test("returns no more picks than entrants with weight", () => {
+    expect(sampleWithoutReplacement([0, 1, 0], 5)).toEqual([1]);
+    expect(sampleWithoutReplacement([1, 2], 0)).toEqual([]);
+  });
+});
+
+describe("tiers", () => {
+  const tiers = [
+    { name: "grand", winners: 1 },
+    { name: "runner-up", winners: 2 },
+  ];
+
+  test("assigns tiers in draw order", () => {
+    expect(assignTiers(["0xa", "0xb", "0xc"], tiers)).toEqual(
+      new Map([
+        ["0xa", "grand"],
+        ["0xb", "runner-up"],
+        ["0xc", "runner-up"],
+      ])
+    );
+  });
+
+  test("rejects a number of winners the tiers do not hold", () => {
+    expect(() => validateTierWinners(tiers, 3)).not.toThrow();
+    expect(() => validateTierWinners(tiers, 4)).toThrow(ConfigurationError);
+  });
+});
+
+describe("runDrawSelfTest", () => {
+  test("passes with seeded randomness, the same way on every run", () => {
+    const first = runDrawSelfTest({ trials: 5000 });
+    const seeded = first.find((result) => result.source === "seeded")!;
+    expect(seeded.passed).toBe(true);
+    expect(seeded.degreesOfFreedom).toBe(19);
+
+    const second = runDrawSelfTest({ trials: 5000 });
+    expect(second.find((result) => result.source === "seeded")).toEqual(seeded);
+  });
+
+  test("rejects trials that are not a positive whole number", () => {
+    for (const trials of [0, -1, 2.5]) {
+      expect(() => runDrawSelfTest({ trials })).toThrow(ConfigurationError);
+    }
+  });
+});
@@ -0,0 +1,324 @@
+import { concat, keccak256, toHex, type Hex } from "viem";
+import type {
+  ChainDataProvider,
+  DrawProof,
+  DrawSeed,
+  DrawSelfTestResult,
+  IndexerContext,
+  PrizeTier,
+} from "./types";
+import { ConfigurationError } from "./errors";
+
+// v1 proofs, drawn by walking cumulative weights, still verify.
+export const DRAW_ALGORITHM_VERSION = "daosworld-draw-v2";
+const DRAW_ALGORITHM_V1 = "daosworld-draw-v1";
+
+// Resolves the public seed for a verifiable draw. Block seeds must come from a
+// block after the snapshot so nobody could know them when the snapshot was taken.
+export const resolveDrawSeed = async (
+  ctx: IndexerContext,
+  snapshotBlock: number,
+  seed: DrawSeed
+): Promise<{ seed: Hex; seedBlockNumber?: number }> => {
+  if ("value" in seed) return { seed: seed.value };
+
+  if (seed.blockNumber <= snapshotBlock) {
+    throw new ConfigurationError(
+      `Seed block ${seed.blockNumber} must be after snapshot block ${snapshotBlock}`
+    );
+  }
+
+  const block = await ctx.provider.getBlock({
+    blockNumber: BigInt(seed.blockNumber),
+  });
+
+  return { seed: block.hash, seedBlockNumber: seed.blockNumber };
+};
+
+// Deterministic PRNG: keccak256(seed || counter) mapped to a float in [0, 1)
+// using the top 53 bits, which is exactly representable as a double.
+const randomFromSeed = (seed: Hex, counter: number) => {
+  const hash = keccak256(concat([seed, toHex(counter, { size: 32 })]));
+  return Number(BigInt(hash) >> 203n) / 2 ** 53;
+};
+
+// 53 random bits as a float in (0, 1], so its logarithm is finite.
+const toUniform = (bits: bigint) => (Number(bits) + 1) / 2 ** 53;
+
+// Each entrant's uniform comes from keccak256(seed || address), so it does
+// not depend on who else entered.
+const uniformFromSeed = (seed: Hex, address: string) =>
+  toUniform(
+    BigInt(keccak256(concat([seed, address.toLowerCase() as Hex]))) >> 203n
+  );
+
+const secureUniform = () => {
+  const words = new Uint32Array(2);
+  crypto.getRandomValues(words);
+  return toUniform(
+    ((BigInt(words[0]) << 32n) | BigInt(words[1])) & (2n ** 53n - 1n)
+  );
+};
+
+// Efraimidis–Spirakis sampling: every entrant with weight w gets the key
+// ln(u) / w for its own uniform u, and the largest keys win in key order.
+// This is exactly drawing one entrant at a time with probability weight over
+// the remaining weight, without replacement, in one O(n log n) pass. Keys are
+// compared in log space, so large weights and weight totals keep their
+// resolution. Returns the indices of the picks in draw order.
+export const sampleWithoutReplacement = (
+  weights: number[],
+  count: number,
+  uniform: (index: number) => number = secureUniform
+): number[] =>
+  weights
+    .map((weight, index) => ({ index, weight }))
+    .filter(({ weight }) => weight > 0)
+    .map(({ index, weight }) => ({
+      index,
+      key: Math.log(uniform(index)) / weight,
+    }))
+    .sort((a, b) => b.key - a.key || a.index - b.index)
+    .slice(0, Math.max(0, count))
+    .map(({ index }) => index);
+
+export const canonicalizeEntrants = (
+  entrants: { address: string; weight: number }[]
+) =>
+  entrants
+    .map((entrant) => ({
+      address: entrant.address.toLowerCase(),
+      weight: entrant.weight,
+    }))
+    .sort((a, b) =>
+      a.address < b.address ? -1 : a.address > b.address ? 1 : 0
+    );
+
+// Entrants must already be in canonical order.
+export const drawWithSeed = (
+  entrants: { address: string; weight: number }[],
+  numberOfWinners: number,
+  seed: Hex
+): string[] =>
+  sampleWithoutReplacement(
+    entrants.map((entrant) => entrant.weight),
+    numberOfWinners,
+    (index) => uniformFromSeed(seed, entrants[index].address)
+  ).map((index) => entrants[index].address);
+
+// The v1 draw: each pick draws a fresh value from the PRNG and walks the
+// cumulative weights of the remaining entrants.
+const drawWithSeedV1 = (
+  entrants: { address: string; weight: number }[],
+  numberOfWinners: number,
+  seed: Hex
+): string[] => {
+  const weights = entrants.map((entrant) => Math.max(0, entrant.weight));
+  const picks: string[] = [];
+  let counter = 0;
+
+  while (picks.length < numberOfWinners) {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) break;
+
+    let target = randomFromSeed(seed, counter++) * totalWeight;
+    let selectedIndex = -1;
+
+    for (let i = 0; i < weights.length; i++) {
+      if (weights[i] <= 0) continue;
+      selectedIndex = i;
+      target -= weights[i];
+      if (target < 0) break;
+    }
+
+    picks.push(entrants[selectedIndex].address);
+    weights[selectedIndex] = 0;
+  }
+
+  return picks;
+};
+
+// z above which the self-test fails: p < 0.0005 one-sided, so a correct
+// engine fails about one run in 2000.
+const SELF_TEST_Z_LIMIT = 3.29;
+
+// Draws two winners from a few entrants many times and compares how often
+// each ordered pair (i, j) comes first and second with its exact probability
+// w_i / W * w_j / (W - w_i). This covers both the weighting of the first pick
+// and the without-replacement renormalization of the second. Seeded trials
+// use the seeds keccak256(trial), so their result is the same on every run.
+export const runDrawSelfTest = (
+  options: { trials?: number; weights?: number[] } = {}
+): DrawSelfTestResult[] & { passed: boolean } => {
+  const trials = options.trials ?? 20_000;
+  const weights = options.weights ?? [1, 2, 3, 5, 13];
+  if (!Number.isInteger(trials) || trials < 1) {
+    throw new ConfigurationError(
+      `The self-test needs a positive whole number of trials, not ${trials}`
+    );
+  }
+  if (weights.length < 3 || weights.some((weight) => !(weight > 0))) {
+    throw new ConfigurationError(
+      "The self-test needs at least three positive weights"
+    );
+  }
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const cell = (first: number, second: number) =>
+    first * weights.length + second;
+  const expected = new Map<number, number>();
+  weights.forEach((first, i) =>
+    weights.forEach((second, j) => {
+      if (i !== j) {
+        expected.set(
+          cell(i, j),
+          (trials * (first / total) * second) / (total - first)
+        );
+      }
+    })
+  );
+
+  const addresses = weights.map((_weight, i) => toHex(i + 1, { size: 20 }));
+  const sources = {
+    seeded: (trial: number) => (index: number) =>
+      uniformFromSeed(keccak256(toHex(trial, { size: 32 })), addresses[index]),
+    secure: () => secureUniform,
+  };
+
+  const results = Object.entries(sources).map(([source, uniformFor]) => {
+    const observed = new Map<number, number>();
+    for (let trial = 0; trial < trials; trial++) {
+      const [first, second] = sampleWithoutReplacement(
+        weights,
+        2,
+        uniformFor(trial)
+      );
+      const pair = cell(first, second);
+      observed.set(pair, (observed.get(pair) ?? 0) + 1);
+    }
+
+    let chiSquare = 0;
+    for (const [pair, count] of expected) {
+      chiSquare += ((observed.get(pair) ?? 0) - count) ** 2 / count;
+    }
+    const degreesOfFreedom = expected.size - 1;
+    const zScore =
+      (Math.cbrt(chiSquare / degreesOfFreedom) -
+        (1 - 2 / (9 * degreesOfFreedom))) /
+      Math.sqrt(2 / (9 * degreesOfFreedom));
+
+    return {
+      source: source as DrawSelfTestResult["source"],
+      trials,
+      chiSquare,
+      degreesOfFreedom,
+      zScore,
+      passed: zScore < SELF_TEST_Z_LIMIT,
+    };
+  });
+
+  return Object.assign(results, {
+    passed: results.every((result) => result.passed),
+  });
+};
+
+export const countTierWinners = (tiers: PrizeTier[]) =>
+  tiers.reduce((sum, tier) => sum + tier.winners, 0);
+
+export const validateTiers = (tiers: PrizeTier[]) => {
+  if (tiers.length === 0) {
+    throw new ConfigurationError("At least one prize tier is required");
+  }
+  const names = new Set<string>();
+  for (const tier of tiers) {
+    if (!tier.name || names.has(tier.name)) {
+      throw new ConfigurationError(
+        `Prize tiers need unique names: ${JSON.stringify(tier.name)}`
+      );
+    }
+    if (!Number.isInteger(tier.winners) || tier.winners < 1) {
+      throw new ConfigurationError(
+        `Tier ${tier.name} needs a positive whole number of winners`
+      );
+    }
+    names.add(tier.name);
+  }
+};
+
+// Tiered draws pick exactly as many winners as the tiers hold.
+export const validateTierWinners = (
+  tiers: PrizeTier[],
+  numberOfWinners: number
+) => {
+  validateTiers(tiers);
+  if (countTierWinners(tiers) !== numberOfWinners) {
+    throw new ConfigurationError(
+      `Prize tiers add up to ${countTierWinners(
+        tiers
+      )} winners, not ${numberOfWinners}`
+    );
+  }
+};
+
+// The first picks win the first tier, the next ones the second, and so on.
+// With fewer entrants than prizes, the last tiers stay short or empty.
+export const assignTiers = (picks: string[], tiers: PrizeTier[]) => {
+  const assigned = new Map<string, string>();
+  let pick = 0;
+  for (const tier of tiers) {
+    for (let i = 0; i < tier.winners && pick < picks.length; i++) {
+      assigned.set(picks[pick++], tier.name);
+    }
+  }
+  return assigned;
+};
+
+// Replays a proof file. When a provider is given, block seeds are also checked
+// against the chain.
+export const verifyDraw = async (
+  proof: DrawProof,
+  provider?: ChainDataProvider
+): Promise<{ valid: boolean; winners: string[]; errors: string[] }> => {
+  const errors: string[] = [];
+
+  if (
+    proof.version !== DRAW_ALGORITHM_VERSION &&
+    proof.version !== DRAW_ALGORITHM_V1
+  ) {
+    errors.push(`Unsupported draw algorithm version ${proof.version}`);
+    return { valid: false, winners: [], errors };
+  }
+
+  const entrants = proof.entrants.map((entrant) => ({
+    address: entrant.address,
+    weight: Number(entrant.weight),
+  }));
+
+  const canonical = canonicalizeEntrants(entrants);
+  if (canonical.some((entrant, i) => entrant.address !== entrants[i].address)) {
+    errors.push("Entrants are not in canonical order");
+  }
+
+  if (provider && proof.seedBlockNumber !== undefined) {
+    const block = await provider.getBlock({
+      blockNumber: BigInt(proof.seedBlockNumber),
+    });
+    if (block.hash !== proof.seed) {
+      errors.push(
+        `Seed does not match hash of block ${proof.seedBlockNumber}: ${block.hash}`
+      );
+    }
+  }
+
+  const winners = (
+    proof.version === DRAW_ALGORITHM_V1 ? drawWithSeedV1 : drawWithSeed
+  )(entrants, proof.numberOfWinners, proof.seed);
+  if (
+    winners.length !== proof.winners.length ||
+    winners.some((winner, i) => winner !== proof.winners[i].toLowerCase())
+  ) {
+    errors.push("Replayed winners do not match the proof");
+  }
+
+  return { valid: errors.length === 0, winners, errors };
+};
@@ -0,0 +1,26 @@
+import type { RunReport } from "./types";
+
+export class IndexerError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+// Invalid or missing configuration, such as an unsupported chain.
+export class ConfigurationError extends IndexerError {}
+
+// A provider call that kept failing after its retries.
+export class ProviderError extends IndexerError {}
+
+// Thrown in strict mode instead of returning a result that is missing data.
+export class IncompleteDataError extends IndexerError {
+  constructor(readonly report: RunReport) {
+    super(
+      `Incomplete data: ${report.skippedTransactions.length} skipped transactions, ` +
+        `${report.failedTokenIds.length} failed token ids, ` +
+        `${report.unscannedRanges.length} unscanned block ranges, ` +
+        `${report.missingSlot0.length} pools without slot0`
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import type { Balance, ExclusionConfig, IndexerContext } from "./types";
+import { applyExclusions, getExcludedAddresses } from "./exclusions";
+import { createOwnerLookupCustodian } from "./custodians";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const OTHER_TOKEN = "0x00000000000000000000000000000000000000ab";
+const POOL = "0x00000000000000000000000000000000000000bb";
+const POSITION_MANAGER = "0x00000000000000000000000000000000000000cc";
+const VAULT = "0x00000000000000000000000000000000000000ff";
+const BURN = "0x000000000000000000000000000000000000dead";
+
+const address = (i: number) => `0x${i.toString(16).padStart(40, "0")}`;
+
+const holder = (holderAddress: string, tokens = [TOKEN]): Balance => ({
+  holderAddress,
+  balances: tokens.map((tokenAddress) => ({
+    tokenAddress,
+    balance: 100n,
+    lpBalance: 0n,
+    lpFees: 0n,
+    decimals: 18,
+  })),
+});
+
+// Answers getCode from codes, where a missing address has no code.
+const mockContext = (
+  exclusions?: ExclusionConfig,
+  codes = new Map<string, string>()
+) => {
+  const codeRequests: string[] = [];
+  const ctx = {
+    provider: {
+      getCode: async ({ address }: { address: string }) => {
+        codeRequests.push(address);
+        return codes.get(address);
+      },
+    },
+    tokens: [
+      { address: TOKEN, lpAddress: POOL },
+      { address: OTHER_TOKEN, liquiditySources: [] },
+    ],
+    positionManager: POSITION_MANAGER,
+    custodians: [createOwnerLookupCustodian({ address: VAULT, name: "Vault" })],
+    exclusions,
+  } as unknown as IndexerContext;
+  return { ctx, codeRequests };
+};
+
+const reasons = (excluded: { holderAddress: string; reason: string }[]) =>
+  excluded.map((entry) => [entry.holderAddress, entry.reason]);
+
+describe("applyExclusions", () => {
+  test("leaves out pools, position managers, burn addresses and custodians", async () => {
+    const { ctx } = mockContext();
+    const holders = await applyExclusions(ctx, 10, [
+      holder(POOL),
+      holder(POSITION_MANAGER),
+      holder(BURN),
+      holder(VAULT),
+      holder(address(1)),
+    ]);
+
+    expect([...holders]).toEqual([holder(address(1))]);
+    expect(reasons(holders.excluded)).toEqual([
+      [POOL, "Liquidity pool"],
+      [POSITION_MANAGER, "Uniswap V3 position manager"],
+      [BURN, "Burn address"],
+      [VAULT, "Vault (position custodian)"],
+    ]);
+    expect(getExcludedAddresses(ctx)).toEqual(
+      new Set([
+        POOL,
+        POSITION_MANAGER,
+        BURN,
+        "0xdead000000000000000042069420694206942069",
+        VAULT,
+      ])
+    );
+  });
+
+  test("removes only the token rows an entry names", async () => {
+    const { ctx } = mockContext({
+      useDefaults: false,
+      addresses: [
+        { address: address(1), tokenAddress: TOKEN, reason: "Team vesting" },
+        { address: address(2) },
+      ],
+    });
+    const holders = await applyExclusions(ctx, 10, [
+      holder(POOL),
+      holder(address(1), [TOKEN, OTHER_TOKEN]),
+      holder(address(2)),
+      holder(address(3), [TOKEN]),
+    ]);
+
+    expect([...holders]).toEqual([
+      holder(POOL),
+      holder(address(1), [OTHER_TOKEN]),
+      holder(address(3)),
+    ]);
+    expect(holders.excluded).toEqual([
+      {
+        holderAddress: address(1),
+        tokenAddress: TOKEN,
+        reason: "Team vesting",
+        balances: holder(address(1)).balances,
+      },
+      {
+        holderAddress: address(2),
+        reason: "Excluded by configuration",
+        balances: holder(address(2)).balances,
+      },
+    ]);
+  });
+
+  test("with excludeContracts, leaves out holders with code unless allowlisted", async () => {
+    const { ctx, codeRequests } = mockContext(
+      { excludeContracts: true, contractAllowlist: [address(3)] },
+      new Map([
+        [address(1), "0x6080"],
+        [address(2), `0xef0100${"11".repeat(20)}`],
+        [address(3), "0x6080"],
+        [address(4), "0x"],
+      ])
+    );
+    const holders = await applyExclusions(
+      ctx,
+      10,
+      [POOL, address(1), address(2), address(3), address(4)].map((a) =>
+        holder(a)
+      )
+    );
+
+    expect(holders.map((h) => h.holderAddress)).toEqual([
+      address(2),
+      address(3),
+      address(4),
+    ]);
+    expect(reasons(holders.excluded)).toEqual([
+      [POOL, "Liquidity pool"],
+      [address(1), "Contract address"],
+    ]);
+    expect(codeRequests).toEqual([address(1), address(2), address(4)]);
+  });
+});
@@ -0,0 +1,178 @@
+import * as fs from "fs";
+import type { Hex } from "viem";
+import type {
+  Balance,
+  ExcludedHolder,
+  ExclusionEntry,
+  IndexerContext,
+} from "./types";
+import { getChainId, getPositionManager } from "./chains";
+import { getCustodians } from "./custodians";
+import { getLiquidityContracts } from "./liquidity";
+
+const BURN_ADDRESSES = [
+  "0x000000000000000000000000000000000000dead",
+  "0xdead000000000000000042069420694206942069",
+];
+
+// Addresses that never represent a community member: the configured
+// liquidity sources, the position managers, burn addresses and position
+// custodians, whose positions are credited to their depositors instead.
+const getDefaultExclusions = (ctx: IndexerContext): ExclusionEntry[] => [
+  ...getLiquidityContracts(ctx.tokens, getChainId(ctx)),
+  { address: getPositionManager(ctx), reason: "Uniswap V3 position manager" },
+  ...BURN_ADDRESSES.map((address) => ({ address, reason: "Burn address" })),
+  ...getCustodians(ctx).map((custodian) => ({
+    address: custodian.address,
+    reason: `${custodian.name} (position custodian)`,
+  })),
+];
+
+const CODE_CHUNK_SIZE = 50;
+
+// EIP-7702 delegated accounts carry a 0xef0100 designator but are still EOAs.
+const isContractCode = (code: Hex | undefined) =>
+  !!code && code !== "0x" && !code.startsWith("0xef0100");
+
+export const findContracts = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  addresses: string[]
+) => {
+  const contracts = new Set<string>();
+
+  for (let i = 0; i < addresses.length; i += CODE_CHUNK_SIZE) {
+    const chunk = addresses.slice(i, i + CODE_CHUNK_SIZE);
+    const codes = await Promise.all(
+      chunk.map((address) =>
+        ctx.provider.getCode({
+          address: address as Hex,
+          blockNumber: BigInt(blockNumber),
+        })
+      )
+    );
+    chunk.forEach((address, index) => {
+      if (isContractCode(codes[index])) contracts.add(address);
+    });
+  }
+
+  return contracts;
+};
+
+// Addresses excluded for every token, lowercase.
+export const getExcludedAddresses = (ctx: IndexerContext) => {
+  const config = ctx.exclusions ?? {};
+  return new Set(
+    [
+      ...(config.useDefaults === false ? [] : getDefaultExclusions(ctx)),
+      ...(config.addresses ?? []),
+    ]
+      .filter((entry) => !entry.tokenAddress)
+      .map((entry) => entry.address.toLowerCase())
+  );
+};
+
+// Removes excluded holders, or only the excluded token rows of a holder, and
+// returns what was removed and why so exports can report it.
+export const applyExclusions = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  holders: Balance[]
+): Promise<Balance[] & { excluded: ExcludedHolder[] }> => {
+  const config = ctx.exclusions ?? {};
+  const entries = [
+    ...(config.useDefaults === false ? [] : getDefaultExclusions(ctx)),
+    ...(config.addresses ?? []),
+  ];
+
+  const global = new Map<string, string>();
+  const perToken = new Map<string, string>();
+  for (const entry of entries) {
+    const address = entry.address.toLowerCase();
+    const reason = entry.reason ?? "Excluded by configuration";
+    if (entry.tokenAddress) {
+      perToken.set(`${address}:${entry.tokenAddress.toLowerCase()}`, reason);
+    } else if (!global.has(address)) {
+      global.set(address, reason);
+    }
+  }
+
+  if (config.excludeContracts) {
+    const allowlist = new Set(
+      (config.contractAllowlist ?? []).map((address) => address.toLowerCase())
+    );
+    const candidates = holders
+      .map((holder) => holder.holderAddress.toLowerCase())
+      .filter((address) => !global.has(address) && !allowlist.has(address));
+
+    const contracts = await findContracts(ctx, blockNumber, candidates);
+    contracts.forEach((address) => global.set(address, "Contract address"));
+  }
+
+  const excluded: ExcludedHolder[] = [];
+  const result: Balance[] = [];
+
+  for (const holder of holders) {
+    const address = holder.holderAddress.toLowerCase();
+
+    const globalReason = global.get(address);
+    if (globalReason) {
+      excluded.push({
+        holderAddress: holder.holderAddress,
+        reason: globalReason,
+        balances: holder.balances,
+      });
+      continue;
+    }
+
+    const balances = holder.balances.filter((balance) => {
+      const reason = perToken.get(
+        `${address}:${balance.tokenAddress.toLowerCase()}`
+      );
+      if (!reason) return true;
+
+      excluded.push({
+        holderAddress: holder.holderAddress,
+        tokenAddress: balance.tokenAddress,
+        reason,
+        balances: [balance],
+      });
+      return false;
+    });
+
+    if (balances.length > 0) {
+      result.push({ holderAddress: holder.holderAddress, balances });
+    }
+  }
+
+  return Object.assign(result, { excluded });
+};
+
+export const exportExclusionsToCSV = async (
+  excluded: ExcludedHolder[],
+  blockNumber?: number,
+  csvExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportExclusionsToCSV");
+
+  const headers = ["Holder Address", "Token Address", "Reason"];
+
+  const rows = excluded.map((entry) => [
+    entry.holderAddress,
+    entry.tokenAddress ?? "all",
+    `"${entry.reason.replace(/"/g, '""')}"`,
+  ]);
+
+  const csvContent = [
+    headers.join(","),
+    ...rows.map((row) => row.join(",")),
+  ].join("\n");
+
+  const filename = csvExportFilename
+    ? csvExportFilename
+    : `excluded-block-${blockNumber}.csv`;
+
+  fs.writeFileSync(filename, csvContent);
+  if (logging) console.timeEnd("exportExclusionsToCSV");
+};
@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import type { IndexerContext } from "./types";
+import { getUncollectedFees, type FeePosition } from "./fees";
+
+const Q128 = 1n << 128n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const POOL = "0x00000000000000000000000000000000000000aa";
+
+// A pool with global fee growth 1000 and 500 per unit of liquidity, and
+// fee growth outside its ticks as given; other ticks fail to read.
+const poolContext = (ticks: Record<number, [bigint, bigint]>) =>
+  ({
+    provider: {
+      multicall: async ({
+        contracts,
+      }: {
+        contracts: { functionName: string; args?: [number] }[];
+      }) =>
+        contracts.map(({ functionName, args }) => {
+          if (functionName === "feeGrowthGlobal0X128") {
+            return { status: "success", result: 1000n * Q128 };
+          }
+          if (functionName === "feeGrowthGlobal1X128") {
+            return { status: "success", result: 500n * Q128 };
+          }
+          const outside = ticks[args![0]];
+          return outside
+            ? {
+                status: "success",
+                result: [0n, 0n, outside[0], outside[1], 0n, 0n, 0, true],
+              }
+            : { status: "failure", error: new Error("execution reverted") };
+        }),
+    },
+  } as unknown as IndexerContext);
+
+const position = (overrides: Partial<FeePosition>): FeePosition => ({
+  poolAddress: POOL,
+  currentTick: 0,
+  tickLower: -100,
+  tickUpper: 100,
+  liquidity: 3n,
+  feeGrowthInside0LastX128: 0n,
+  feeGrowthInside1LastX128: 0n,
+  tokensOwed0: 0n,
+  tokensOwed1: 0n,
+  ...overrides,
+});
+
+describe("getUncollectedFees", () => {
+  const ctx = poolContext({
+    [-100]: [100n * Q128, 50n * Q128],
+    [100]: [200n * Q128, 0n],
+  });
+
+  test("adds fee growth inside the range since the last update to what is owed", async () => {
+    // Inside: 1000 - 100 - 200 = 700 and 500 - 50 - 0 = 450.
+    const [fees] = await getUncollectedFees(ctx, 1, [
+      position({
+        feeGrowthInside0LastX128: 600n * Q128,
+        feeGrowthInside1LastX128: 450n * Q128,
+        tokensOwed0: 5n,
+        tokensOwed1: 7n,
+      }),
+    ]);
+
+    expect(fees).toEqual({ amount0: 5n + 3n * 100n, amount1: 7n });
+  });
+
+  test("wraps fee growth like the pool's uint256 arithmetic", async () => {
+    // Below the range, inside is lower - upper = -100, which wraps.
+    const inside0 = (-100n * Q128) & MAX_UINT256;
+    const [fees] = await getUncollectedFees(ctx, 1, [
+      position({
+        currentTick: -200,
+        feeGrowthInside0LastX128: (inside0 - 10n * Q128) & MAX_UINT256,
+        feeGrowthInside1LastX128: 50n * Q128,
+      }),
+    ]);
+
+    expect(fees).toEqual({ amount0: 3n * 10n, amount1: 0n });
+  });
+
+  test("counts growth above the range against the upper tick", async () => {
+    // Above: inside is upper - lower, 200 - 100 and 0 - 50.
+    const [fees] = await getUncollectedFees(ctx, 1, [
+      position({
+        currentTick: 100,
+        liquidity: 2n,
+        feeGrowthInside1LastX128: (-60n * Q128) & MAX_UINT256,
+      }),
+    ]);
+
+    expect(fees).toEqual({ amount0: 2n * 100n, amount1: 2n * 10n });
+  });
+
+  test("leaves positions whose ticks cannot be read undefined", async () => {
+    const fees = await getUncollectedFees(ctx, 1, [
+      position({ tickUpper: 200 }),
+      position({}),
+    ]);
+
+    expect(fees[0]).toBeUndefined();
+    expect(fees[1]).toBeDefined();
+  });
+});
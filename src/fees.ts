@@ -0,0 +1,157 @@
+import type { Hex } from "viem";
+import type { IndexerContext } from "./types";
+
+const POOL_FEE_ABI = [
+  {
+    name: "feeGrowthGlobal0X128",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "feeGrowthGlobal1X128",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "ticks",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "tick", type: "int24" }],
+    outputs: [
+      { name: "liquidityGross", type: "uint128" },
+      { name: "liquidityNet", type: "int128" },
+      { name: "feeGrowthOutside0X128", type: "uint256" },
+      { name: "feeGrowthOutside1X128", type: "uint256" },
+      { name: "tickCumulativeOutside", type: "int56" },
+      { name: "secondsPerLiquidityOutsideX128", type: "uint160" },
+      { name: "secondsOutside", type: "uint32" },
+      { name: "initialized", type: "bool" },
+    ],
+  },
+] as const;
+
+export type FeePosition = {
+  poolAddress: string;
+  currentTick: number;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  feeGrowthInside0LastX128: bigint;
+  feeGrowthInside1LastX128: bigint;
+  tokensOwed0: bigint;
+  tokensOwed1: bigint;
+};
+
+const Q128 = 1n << 128n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+// Fee growth counters are uint256 and rely on wrapping arithmetic.
+const sub256 = (a: bigint, b: bigint) => (a - b) & MAX_UINT256;
+
+const CHUNK_SIZE = 100;
+
+// Replicates the pool's fee accounting at blockNumber: fee growth inside the
+// position's range since its last update, times its liquidity, plus the
+// amounts already owed but not yet collected.
+export const getUncollectedFees = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  positions: FeePosition[]
+): Promise<({ amount0: bigint; amount1: bigint } | undefined)[]> => {
+  const { provider: client } = ctx;
+  const pools = Array.from(
+    new Set(positions.map((position) => position.poolAddress.toLowerCase()))
+  );
+
+  const globalResults = await client.multicall({
+    contracts: pools.flatMap((pool) => [
+      {
+        address: pool as Hex,
+        abi: POOL_FEE_ABI,
+        functionName: "feeGrowthGlobal0X128" as const,
+      },
+      {
+        address: pool as Hex,
+        abi: POOL_FEE_ABI,
+        functionName: "feeGrowthGlobal1X128" as const,
+      },
+    ]),
+    blockNumber: BigInt(blockNumber),
+  });
+
+  const feeGrowthGlobal = new Map<string, [bigint, bigint]>();
+  pools.forEach((pool, index) => {
+    const global0 = globalResults[index * 2];
+    const global1 = globalResults[index * 2 + 1];
+    if (global0.status === "success" && global1.status === "success") {
+      feeGrowthGlobal.set(pool, [global0.result, global1.result]);
+    }
+  });
+
+  const tickKeys = Array.from(
+    new Set(
+      positions.flatMap((position) => [
+        `${position.poolAddress.toLowerCase()}:${position.tickLower}`,
+        `${position.poolAddress.toLowerCase()}:${position.tickUpper}`,
+      ])
+    )
+  );
+
+  const feeGrowthOutside = new Map<string, [bigint, bigint]>();
+  for (let i = 0; i < tickKeys.length; i += CHUNK_SIZE) {
+    const chunk = tickKeys.slice(i, i + CHUNK_SIZE);
+    const results = await client.multicall({
+      contracts: chunk.map((key) => {
+        const [pool, tick] = key.split(":");
+        return {
+          address: pool as Hex,
+          abi: POOL_FEE_ABI,
+          functionName: "ticks" as const,
+          args: [Number(tick)] as const,
+        };
+      }),
+      blockNumber: BigInt(blockNumber),
+    });
+    results.forEach((result, index) => {
+      if (result.status === "success") {
+        feeGrowthOutside.set(chunk[index], [
+          result.result[2],
+          result.result[3],
+        ]);
+      }
+    });
+  }
+
+  return positions.map((position) => {
+    const pool = position.poolAddress.toLowerCase();
+    const global = feeGrowthGlobal.get(pool);
+    const lower = feeGrowthOutside.get(`${pool}:${position.tickLower}`);
+    const upper = feeGrowthOutside.get(`${pool}:${position.tickUpper}`);
+    if (!global || !lower || !upper) return undefined;
+
+    const [amount0, amount1] = ([0, 1] as const).map((i) => {
+      const below =
+        position.currentTick >= position.tickLower
+          ? lower[i]
+          : sub256(global[i], lower[i]);
+      const above =
+        position.currentTick < position.tickUpper
+          ? upper[i]
+          : sub256(global[i], upper[i]);
+      const inside = sub256(sub256(global[i], below), above);
+      const last =
+        i === 0
+          ? position.feeGrowthInside0LastX128
+          : position.feeGrowthInside1LastX128;
+      const owed = i === 0 ? position.tokensOwed0 : position.tokensOwed1;
+
+      return owed + (position.liquidity * sub256(inside, last)) / Q128;
+    });
+
+    return { amount0, amount1 };
+  });
+};
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { DrawHistory } from "./types";
+import {
+  appendDrawRecord,
+  drawRecord,
+  readDrawHistory,
+  recentWinnerMultipliers,
+  writeDrawHistory,
+} from "./history";
+import { ConfigurationError } from "./errors";
+
+const address = (i: number) => `0x${i.toString(16).padStart(40, "0")}`;
+
+// Oldest draw first, as the history file keeps them.
+const history = (...rounds: number[][]): DrawHistory => ({
+  draws: rounds.map((winners, round) => ({
+    blockNumber: round,
+    drawnAt: "2026-01-01T00:00:00.000Z",
+    winners: winners.map((i) => ({ address: address(i) })),
+  })),
+});
+
+describe("recentWinnerMultipliers", () => {
+  const draws = history([1, 2], [3], [4, 1], [5]);
+
+  test("sits out winners of the latest rounds and down-weights those before", () => {
+    expect(
+      recentWinnerMultipliers(draws, {
+        excludeRounds: 1,
+        downWeightRounds: 2,
+        downWeight: 0.5,
+      })
+    ).toEqual(
+      new Map([
+        [address(5), 0],
+        [address(4), 0.5],
+        [address(1), 0.5],
+        [address(3), 0.5],
+      ])
+    );
+  });
+
+  test("gives winners of several rounds the multiplier of the latest", () => {
+    expect(
+      recentWinnerMultipliers(draws, {
+        excludeRounds: 2,
+        downWeightRounds: 2,
+      }).get(address(1))
+    ).toBe(0);
+  });
+
+  test("matches addresses whatever their case", () => {
+    const mixedCase = history([]);
+    mixedCase.draws[0].winners = [{ address: address(10).toUpperCase() }];
+
+    expect(
+      recentWinnerMultipliers(mixedCase, { excludeRounds: 1 }).get(address(10))
+    ).toBe(0);
+  });
+
+  test("changes nothing without rounds, and rejects negative weights", () => {
+    expect(recentWinnerMultipliers(draws, {})).toEqual(new Map());
+    expect(() =>
+      recentWinnerMultipliers(draws, { downWeightRounds: 1, downWeight: -1 })
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe("draw history files", () => {
+  test("start empty, and keep every appended draw", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "history-test-"));
+    const filename = path.join(directory, "history.json");
+    try {
+      expect(readDrawHistory(filename)).toEqual({ draws: [] });
+
+      const record = drawRecord(
+        [
+          {
+            address: address(1).toUpperCase(),
+            weight: 1,
+            balances: [],
+            tier: "Grand",
+          },
+        ],
+        10,
+        "week-1"
+      );
+      writeDrawHistory(filename, appendDrawRecord({ draws: [] }, record));
+
+      expect(readDrawHistory(filename)).toEqual({ draws: [record] });
+      expect(record.winners).toEqual([{ address: address(1), tier: "Grand" }]);
+      expect(fs.readdirSync(directory)).toEqual(["history.json"]);
+
+      fs.writeFileSync(filename, JSON.stringify({ winners: [] }));
+      expect(() => readDrawHistory(filename)).toThrow(ConfigurationError);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import type {
+  DrawHistory,
+  DrawRecord,
+  RecentWinnerPolicy,
+  Winner,
+} from "./types";
+import { ConfigurationError } from "./errors";
+
+// A missing file is an empty history, so the first draw of a campaign can
+// create it.
+export const readDrawHistory = (filename: string): DrawHistory => {
+  if (!fs.existsSync(filename)) return { draws: [] };
+
+  const history = JSON.parse(fs.readFileSync(filename, "utf8"));
+  if (!Array.isArray(history?.draws)) {
+    throw new ConfigurationError(`${filename} is not a draw history`);
+  }
+  return history;
+};
+
+// Written to a temporary file first, so an interrupted write keeps the
+// previous history.
+export const writeDrawHistory = (filename: string, history: DrawHistory) => {
+  fs.writeFileSync(`${filename}.tmp`, JSON.stringify(history, null, 2));
+  fs.renameSync(`${filename}.tmp`, filename);
+};
+
+export const drawRecord = (
+  winners: Winner[],
+  blockNumber: number,
+  id?: string
+): DrawRecord => ({
+  id,
+  blockNumber,
+  drawnAt: new Date().toISOString(),
+  winners: winners.map((winner) => ({
+    address: winner.address.toLowerCase(),
+    tier: winner.tier,
+  })),
+});
+
+export const appendDrawRecord = (
+  history: DrawHistory,
+  record: DrawRecord
+): DrawHistory => ({ draws: [...history.draws, record] });
+
+// Weight multipliers for winners of the latest rounds, by lowercase address:
+// 0 for those who sit out. A holder who won in several rounds takes the
+// multiplier of the latest.
+export const recentWinnerMultipliers = (
+  history: DrawHistory,
+  policy: RecentWinnerPolicy
+) => {
+  const excludeRounds = policy.excludeRounds ?? 0;
+  const downWeightRounds = policy.downWeightRounds ?? 0;
+  const downWeight = policy.downWeight ?? 1;
+  if (downWeight < 0) {
+    throw new ConfigurationError("downWeight cannot be negative");
+  }
+
+  const multipliers = new Map<string, number>();
+  const rounds = excludeRounds + downWeightRounds;
+  if (rounds === 0) return multipliers;
+
+  const recent = history.draws.slice(-rounds).reverse();
+  recent.forEach((draw, round) => {
+    for (const winner of draw.winners) {
+      const address = winner.address.toLowerCase();
+      if (multipliers.has(address)) continue;
+      multipliers.set(address, round < excludeRounds ? 0 : downWeight);
+    }
+  });
+  return multipliers;
+};
@@ -0,0 +1,23 @@
+import { describe, expect, test } from "bun:test";
+import type { Balance, ChainDataProvider } from "./types";
+import { DaosWorldIndexer } from "./index";
+import { ConfigurationError } from "./errors";
+
+const TOKEN = { address: "0x00000000000000000000000000000000000000aa" };
+
+describe("DaosWorldIndexer.getRandomWinners", () => {
+  test("rejects a snapshot together with a time-weighted window", async () => {
+    const indexer = new DaosWorldIndexer({
+      provider: {} as ChainDataProvider,
+      tokens: [TOKEN],
+    });
+    const snapshot = Object.assign([] as Balance[], { excluded: [] });
+
+    await expect(
+      indexer.getRandomWinners(100, 1, 1, undefined, {
+        snapshot,
+        timeWeighted: { fromBlock: 10 },
+      })
+    ).rejects.toThrow(ConfigurationError);
+  });
+});
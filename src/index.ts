@@ -1,7 +1,59 @@
-import type { Token } from "./types";
+import type {
+  Token,
+  ChainDataProvider,
+  IndexStore,
+  ExclusionConfig,
+  PositionCustodian,
+  LPWeight,
+  IndexerContext,
+  DrawOptions,
+  DrawProof,
+  ChainConfig,
+  RunReport,
+  RequestSchedulerConfig,
+  TokenPrice,
+  TransferSource,
+  AllocationRule,
+  AllocationRules,
+  ValuationConfig,
+  ClusterConfig,
+  Balance,
+  ExcludedHolder,
+} from "./types";
+import { createAlchemyProvider, createJsonRpcProvider } from "./providers";
+import { createMemoryIndexStore, createScopedIndexStore } from "./store";
+import { createRequestScheduler } from "./scheduler";
+import { getTokenPrices } from "./prices";
+import {
+  buildClusters,
+  exportClustersToJSON,
+  getClusterEvidence,
+} from "./clusters";
+import {
+  appendDrawRecord,
+  drawRecord,
+  readDrawHistory,
+  writeDrawHistory,
+} from "./history";
+import {
+  allocate,
+  createDistribution,
+  exportDistributionToJSON,
+  exportPayoutsToCSV,
+} from "./distribution";
+import { DEFAULT_CHAIN_ID, getChainInfo, resolveChainBlock } from "./chains";
+import { validateTierWinners, verifyDraw } from "./draw";
+import { verifySnapshot, exportVerificationToJSON } from "./verify";
+import { exportExclusionsToCSV } from "./exclusions";
+import { companionFilename } from "./utils";
+import { ConfigurationError } from "./errors";
+import { createRunReport, mergeRunReport, withReport } from "./report";
+import * as fs from "fs";
+import { getAllTransfers, getTokenDecimals } from "./transfers";
+import { tokenLabel } from "./tokens";
 import {
-  getAllTransfers,
   snapshotHolders,
+  snapshotTimeWeighted,
   getRandomWinners,
   exportWinnersToCSV,
   getAllLPHolders,
@@ -10,31 +62,301 @@ import {
   exportLPBalancesToCSV,
   getAllLPBalances,
   exportTransfersToCSV,
+  exportDrawProofToJSON,
+  exportLPPositionsToCSV,
+  mergeChainSnapshots,
+  drawFromHolders,
+  drawIncludesLPs,
 } from "./api";
+import {
+  diffSnapshots,
+  exportSnapshotDiffToCSV,
+  exportSnapshotDiffToJSON,
+  readSnapshotCSV,
+} from "./diff";
+
+export {
+  createAlchemyProvider,
+  createJsonRpcProvider,
+  createLogTransferSource,
+} from "./providers";
+export {
+  createFileIndexStore,
+  createMemoryIndexStore,
+  createScopedIndexStore,
+} from "./store";
+export { CHAINS, DEFAULT_CHAIN_ID } from "./chains";
+export { createRequestScheduler, scheduleProvider } from "./scheduler";
+export { createIndexerServer } from "./server";
+export {
+  createOwnerLookupCustodian,
+  createEventCustodian,
+  createStakingCustodian,
+  REVERT_AUTOCOMPOUNDER_CUSTODIAN,
+} from "./custodians";
+export {
+  verifyDraw,
+  countTierWinners,
+  sampleWithoutReplacement,
+  runDrawSelfTest,
+  DRAW_ALGORITHM_VERSION,
+} from "./draw";
+export {
+  findClusterEvidence,
+  buildClusters,
+  clusterHolders,
+  exportClustersToJSON,
+} from "./clusters";
+export {
+  readDrawHistory,
+  writeDrawHistory,
+  drawRecord,
+  appendDrawRecord,
+  recentWinnerMultipliers,
+} from "./history";
+export {
+  IndexerError,
+  ConfigurationError,
+  ProviderError,
+  IncompleteDataError,
+} from "./errors";
+export { isReportComplete } from "./report";
+export {
+  linearWeighting,
+  sqrtWeighting,
+  logWeighting,
+  cappedWeighting,
+  tieredWeighting,
+  customWeighting,
+  createWeighting,
+} from "./weighting";
+export {
+  getTokenPrices,
+  findTokenPrice,
+  holderValue,
+  unitPrice,
+} from "./prices";
+export {
+  allocate,
+  allocateByRule,
+  createDistribution,
+  distributionFromAllocation,
+  verifyDistribution,
+  verifyProof,
+  exportDistributionToJSON,
+  payoutsToCSV,
+  exportPayoutsToCSV,
+} from "./distribution";
+export type * from "./types";
 
 export const DaosWorldIndexer = class {
-  alchemyApiKey: string;
+  provider: ChainDataProvider;
+  providers: Map<number, ChainDataProvider>;
+  homeChainId: number;
+  chains: Record<number, ChainConfig>;
+  store: IndexStore;
   tokens: Token[];
+  exclusions: ExclusionConfig | undefined;
+  includeLPFees: boolean | undefined;
+  custodians: PositionCustodian[] | undefined;
+  valuation: ValuationConfig | undefined;
+  strict: boolean | undefined;
   logging: boolean | undefined;
 
+  // Either pass an Alchemy API key or any other ChainDataProvider, such as
+  // one created with createJsonRpcProvider for a self-hosted node or fork.
+  // Without a store, indexed data is only kept in memory for this instance.
+  // Tokens on chains other than Base take their provider from chains, or
+  // from the Alchemy API key. Block numbers refer to Base, so a Base provider
+  // is needed whenever tokens span several chains; with every token on one
+  // other chain and no way to reach Base, block numbers refer to that chain.
+  // Every result carries a report of what could not
+  // be read; in strict mode an incomplete result throws IncompleteDataError.
+  // Providers created here share one rateLimit budget; pass your own provider
+  // through scheduleProvider to throttle it the same way.
   constructor(obj: {
-    alchemyApiKey: string;
+    alchemyApiKey?: string;
+    provider?: ChainDataProvider;
+    chains?: Record<number, ChainConfig>;
+    store?: IndexStore;
     tokens: Token[];
+    exclusions?: ExclusionConfig;
+    includeLPFees?: boolean;
+    custodians?: PositionCustodian[];
+    rateLimit?: RequestSchedulerConfig;
+    transferSource?: TransferSource;
+    valuation?: ValuationConfig;
+    strict?: boolean;
     logging?: boolean;
   }) {
-    this.alchemyApiKey = obj.alchemyApiKey;
+    this.chains = obj.chains ?? {};
+    this.providers = new Map();
+    const scheduler = createRequestScheduler(obj.rateLimit);
+
+    const tokenChainIds = new Set(
+      obj.tokens.map((token) => token.chainId ?? DEFAULT_CHAIN_ID)
+    );
+    const canReachBase =
+      obj.alchemyApiKey !== undefined ||
+      obj.provider !== undefined ||
+      this.chains[DEFAULT_CHAIN_ID]?.provider !== undefined ||
+      this.chains[DEFAULT_CHAIN_ID]?.rpcUrl !== undefined;
+    this.homeChainId =
+      tokenChainIds.size === 1 && !canReachBase
+        ? [...tokenChainIds][0]
+        : DEFAULT_CHAIN_ID;
+
+    const chainIds = new Set([this.homeChainId, ...tokenChainIds]);
+    for (const chainId of chainIds) {
+      const config = this.chains[chainId] ?? {};
+      const chainScheduler = config.rateLimit
+        ? createRequestScheduler(config.rateLimit)
+        : scheduler;
+      const provider =
+        config.provider ??
+        (chainId === DEFAULT_CHAIN_ID ? obj.provider : undefined) ??
+        (config.rpcUrl
+          ? createJsonRpcProvider({
+              rpcUrl: config.rpcUrl,
+              chain: getChainInfo(chainId).chain,
+              scheduler: chainScheduler,
+            })
+          : undefined) ??
+        (obj.alchemyApiKey
+          ? createAlchemyProvider(
+              obj.alchemyApiKey,
+              chainId,
+              chainScheduler,
+              config.transferSource ?? obj.transferSource
+            )
+          : undefined);
+
+      if (!provider) {
+        throw new ConfigurationError(
+          chainId === DEFAULT_CHAIN_ID && tokenChainIds.size > 1
+            ? `Tokens span several chains, so block numbers refer to Base: set alchemyApiKey, provider or chains[${DEFAULT_CHAIN_ID}]`
+            : chainId === DEFAULT_CHAIN_ID
+            ? "Either alchemyApiKey or provider must be set"
+            : `No provider for chain ${chainId}: set alchemyApiKey or chains[${chainId}]`
+        );
+      }
+      this.providers.set(chainId, provider);
+    }
+
+    this.provider = this.providers.get(this.homeChainId)!;
+    this.store = obj.store ?? createMemoryIndexStore();
     this.tokens = obj.tokens;
+    this.exclusions = obj.exclusions;
+    this.includeLPFees = obj.includeLPFees;
+    this.custodians = obj.custodians;
+    this.valuation = obj.valuation;
+    this.strict = obj.strict;
     this.logging = obj.logging;
   }
 
-  getTransfers = async (blockNumber: number, csvExportFilename?: string) => {
+  // Streams of Base keep their unprefixed names, so existing stores stay valid.
+  context = (
+    chainId: number = this.homeChainId,
+    report?: RunReport
+  ): IndexerContext => {
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new ConfigurationError(`No tokens configured on chain ${chainId}`);
+    }
+
+    return {
+      provider,
+      store:
+        chainId === DEFAULT_CHAIN_ID
+          ? this.store
+          : createScopedIndexStore(this.store, `chain-${chainId}-`),
+      tokens: this.tokens.filter(
+        (token) => (token.chainId ?? DEFAULT_CHAIN_ID) === chainId
+      ),
+      chainId,
+      positionManager: this.chains[chainId]?.positionManager,
+      exclusions: this.exclusions,
+      includeLPFees: this.includeLPFees,
+      custodians: this.chains[chainId]?.custodians ?? this.custodians,
+      logging: this.logging,
+      report,
+    };
+  };
+
+  isMultiChain = () => this.providers.size > 1;
+
+  // Runs a snapshot on every chain with tokens, at the blocks matching the
+  // given home chain block, and merges the holders. With a valuation, the snapshot
+  // carries each chain's token prices at its block.
+  snapshotChains = async (
+    blockNumber: number,
+    snapshot: (
+      ctx: IndexerContext,
+      blockNumber: number
+    ) => ReturnType<typeof snapshotHolders>,
+    report?: RunReport
+  ) => {
+    const home = this.context();
+    const snapshots = [];
+    const prices: TokenPrice[] = [];
+
+    for (const chainId of this.providers.keys()) {
+      const ctx = this.context(chainId, report);
+      if (ctx.tokens.length === 0) continue;
+
+      const chainBlock = await resolveChainBlock(home, ctx, blockNumber);
+      snapshots.push({
+        chainId,
+        blockNumber: chainBlock,
+        holders: await snapshot(ctx, chainBlock),
+      });
+      prices.push(...((await this.priceTokens(ctx, chainBlock)) ?? []));
+    }
+
+    const merged = mergeChainSnapshots(snapshots);
+    return Object.assign(merged, {
+      prices: this.valuation ? prices : undefined,
+    });
+  };
+
+  // Clusters from the transfers of every chain with tokens, up to the blocks
+  // matching the given home chain block.
+  clusterChains = async (
+    blockNumber: number,
+    config: ClusterConfig,
+    report?: RunReport
+  ) => {
+    const home = this.context();
+    const evidence = [];
+
+    for (const chainId of this.providers.keys()) {
+      const ctx = this.context(chainId, report);
+      if (ctx.tokens.length === 0) continue;
+
+      const chainBlock = await resolveChainBlock(home, ctx, blockNumber);
+      evidence.push(...(await getClusterEvidence(ctx, chainBlock, config)));
+    }
+
+    return buildClusters(evidence);
+  };
+
+  priceTokens = async (ctx: IndexerContext, blockNumber: number) =>
+    this.valuation
+      ? getTokenPrices(ctx, blockNumber, this.valuation)
+      : undefined;
+
+  getTransfers = async (
+    blockNumber: number,
+    csvExportFilename?: string,
+    chainId?: number
+  ) => {
     if (this.logging) console.time("getTransfers");
 
-    const transfers = await getAllTransfers(
-      this.alchemyApiKey,
-      blockNumber,
-      this.tokens,
-      this.logging
+    const report = createRunReport();
+    const transfers = withReport(
+      await getAllTransfers(this.context(chainId, report), blockNumber),
+      report,
+      this.strict
     );
 
     if (csvExportFilename) {
@@ -51,14 +373,18 @@ export const DaosWorldIndexer = class {
     return transfers;
   };
 
-  getLPHolders = async (blockNumber: number, jsonExportFilename?: string) => {
+  getLPHolders = async (
+    blockNumber: number,
+    jsonExportFilename?: string,
+    chainId?: number
+  ) => {
     if (this.logging) console.time("getLPHolders");
 
-    const lpHolders = await getAllLPHolders(
-      this.alchemyApiKey,
-      blockNumber,
-      this.tokens,
-      this.logging
+    const report = createRunReport();
+    const lpHolders = withReport(
+      await getAllLPHolders(this.context(chainId, report), blockNumber),
+      report,
+      this.strict
     );
 
     if (jsonExportFilename) {
@@ -75,24 +401,41 @@ export const DaosWorldIndexer = class {
     return lpHolders;
   };
 
-  getLPBalances = async (blockNumber: number, csvExportFilename?: string) => {
+  getLPBalances = async (
+    blockNumber: number,
+    csvExportFilename?: string,
+    chainId?: number
+  ) => {
     if (this.logging) console.time("getLPBalances");
 
-    const lpBalances = await getAllLPBalances(
-      this.alchemyApiKey,
-      blockNumber,
-      this.tokens,
-      this.logging
+    const report = createRunReport();
+    const ctx = this.context(chainId, report);
+    const lpBalances = withReport(
+      await getAllLPBalances(ctx, blockNumber),
+      report,
+      this.strict
     );
 
     if (csvExportFilename) {
       await exportLPBalancesToCSV(
         lpBalances,
-        this.tokens,
+        ctx.tokens,
         blockNumber,
         csvExportFilename,
         this.logging
       );
+      await exportLPPositionsToCSV(
+        lpBalances,
+        blockNumber,
+        companionFilename(csvExportFilename, "positions"),
+        this.logging
+      );
+      await exportExclusionsToCSV(
+        lpBalances.excluded,
+        blockNumber,
+        companionFilename(csvExportFilename, "excluded"),
+        this.logging
+      );
     }
 
     if (this.logging) console.timeEnd("getLPBalances");
@@ -107,12 +450,15 @@ export const DaosWorldIndexer = class {
   ) => {
     if (this.logging) console.time("getBalanceSnapshot");
 
-    const snapshot = await snapshotHolders(
-      this.alchemyApiKey,
-      blockNumber,
-      this.tokens,
-      includeLPs,
-      this.logging
+    const report = createRunReport();
+    const snapshot = withReport(
+      await this.snapshotChains(
+        blockNumber,
+        (ctx, block) => snapshotHolders(ctx, block, includeLPs),
+        report
+      ),
+      report,
+      this.strict
     );
 
     if (csvExportFilename) {
@@ -123,6 +469,12 @@ export const DaosWorldIndexer = class {
         csvExportFilename,
         this.logging
       );
+      await exportExclusionsToCSV(
+        snapshot.excluded,
+        blockNumber,
+        companionFilename(csvExportFilename, "excluded"),
+        this.logging
+      );
     }
 
     if (this.logging) console.timeEnd("getBalanceSnapshot");
@@ -130,21 +482,239 @@ export const DaosWorldIndexer = class {
     return snapshot;
   };
 
+  // Splits totalAmount pro rata across the snapshot at blockNumber.
+  // payoutDecimals are the distributed token's, for the CSV export.
+  getPayouts = async (
+    blockNumber: number,
+    includeLPs: boolean,
+    totalAmount: bigint,
+    rules: AllocationRules = {},
+    csvExportFilename?: string,
+    payoutDecimals = 18
+  ) => {
+    if (this.logging) console.time("getPayouts");
+
+    const report = createRunReport();
+    const snapshot = withReport(
+      await this.snapshotChains(
+        blockNumber,
+        (ctx, block) => snapshotHolders(ctx, block, includeLPs),
+        report
+      ),
+      report,
+      this.strict
+    );
+    const payouts = Object.assign(allocate(snapshot, totalAmount, rules), {
+      excluded: snapshot.excluded,
+      report,
+    });
+
+    if (csvExportFilename) {
+      await exportPayoutsToCSV(
+        payouts,
+        this.tokens,
+        payoutDecimals,
+        blockNumber,
+        csvExportFilename,
+        this.logging
+      );
+    }
+
+    if (this.logging) console.timeEnd("getPayouts");
+
+    return payouts;
+  };
+
+  // Turns the snapshot at blockNumber into a Merkle airdrop. For winners, use
+  // createDistribution with the result of getRandomWinners.
+  getDistribution = async (
+    blockNumber: number,
+    includeLPs: boolean,
+    rule: AllocationRule,
+    jsonExportFilename?: string
+  ) => {
+    if (this.logging) console.time("getDistribution");
+
+    const report = createRunReport();
+    const snapshot = withReport(
+      await this.snapshotChains(
+        blockNumber,
+        (ctx, block) => snapshotHolders(ctx, block, includeLPs),
+        report
+      ),
+      report,
+      this.strict
+    );
+    const distribution = Object.assign(createDistribution(snapshot, rule), {
+      report,
+    });
+
+    if (jsonExportFilename) {
+      await exportDistributionToJSON(
+        distribution,
+        blockNumber,
+        jsonExportFilename,
+        this.logging
+      );
+    }
+
+    if (this.logging) console.timeEnd("getDistribution");
+
+    return distribution;
+  };
+
+  getTimeWeightedSnapshot = async (
+    fromBlock: number,
+    toBlock: number,
+    includeLPs: boolean,
+    csvExportFilename?: string,
+    lpSamples?: number
+  ) => {
+    if (this.logging) console.time("getTimeWeightedSnapshot");
+
+    const report = createRunReport();
+    const snapshot = withReport(
+      await this.snapshotChains(
+        toBlock,
+        async (ctx, block) =>
+          snapshotTimeWeighted(
+            ctx,
+            await resolveChainBlock(this.context(), ctx, fromBlock),
+            block,
+            includeLPs,
+            lpSamples
+          ),
+        report
+      ),
+      report,
+      this.strict
+    );
+
+    if (csvExportFilename) {
+      await exportSnapshotToCSV(
+        snapshot,
+        this.tokens,
+        toBlock,
+        csvExportFilename,
+        this.logging
+      );
+      await exportExclusionsToCSV(
+        snapshot.excluded,
+        toBlock,
+        companionFilename(csvExportFilename, "excluded"),
+        this.logging
+      );
+    }
+
+    if (this.logging) console.timeEnd("getTimeWeightedSnapshot");
+
+    return snapshot;
+  };
+
+  // With a historyFilename, recent winners are read from that file and the
+  // winners of this draw are appended to it, labelled with drawId. With
+  // clustering, clusters are found at the draw block and enter as one.
   getRandomWinners = async (
     blockNumber: number,
-    lpWeight: number,
+    lpWeight: LPWeight,
     numberOfWinners: number,
-    csvExportFilename?: string
+    csvExportFilename?: string,
+    drawOptions?: DrawOptions & {
+      proofExportFilename?: string;
+      historyFilename?: string;
+      drawId?: string;
+      clustering?: ClusterConfig;
+      // Draws from this snapshot of blockNumber, e.g. one returned by
+      // getBalanceSnapshot, instead of taking a new one.
+      snapshot?: Balance[] & {
+        excluded: ExcludedHolder[];
+        chainBlocks?: Record<string, number>;
+        prices?: TokenPrice[];
+        report?: RunReport;
+      };
+    }
   ) => {
+    // Checked before the snapshot, LP scan and clustering, which can take long.
+    if (drawOptions?.tiers) {
+      validateTierWinners(drawOptions.tiers, numberOfWinners);
+    }
+    // The proof would name a time-weighted window the given snapshot never used.
+    if (drawOptions?.snapshot && drawOptions.timeWeighted) {
+      throw new ConfigurationError(
+        "Pass either snapshot or timeWeighted, not both"
+      );
+    }
     if (this.logging) console.time("getRandomWinners");
 
-    const winners = await getRandomWinners(
-      this.alchemyApiKey,
-      blockNumber,
-      this.tokens,
-      lpWeight,
-      numberOfWinners,
-      this.logging
+    const report = createRunReport();
+    const snapshot = drawOptions?.snapshot;
+    if (snapshot?.report) mergeRunReport(report, snapshot.report);
+    const history =
+      drawOptions?.history ??
+      (drawOptions?.historyFilename
+        ? readDrawHistory(drawOptions.historyFilename)
+        : undefined);
+    const clusters =
+      drawOptions?.clusters ??
+      (drawOptions?.clustering
+        ? await this.clusterChains(blockNumber, drawOptions.clustering, report)
+        : undefined);
+    const options = { ...drawOptions, history, clusters };
+    const winners = withReport(
+      snapshot
+        ? await drawFromHolders(
+            this.context(this.homeChainId, report),
+            blockNumber,
+            snapshot,
+            lpWeight,
+            numberOfWinners,
+            options
+          )
+        : this.isMultiChain()
+        ? await drawFromHolders(
+            this.context(),
+            blockNumber,
+            await this.snapshotChains(
+              blockNumber,
+              async (ctx, block) => {
+                const timeWeighted = drawOptions?.timeWeighted;
+                return timeWeighted
+                  ? snapshotTimeWeighted(
+                      ctx,
+                      await resolveChainBlock(
+                        this.context(),
+                        ctx,
+                        timeWeighted.fromBlock
+                      ),
+                      block,
+                      drawIncludesLPs(lpWeight),
+                      timeWeighted.lpSamples
+                    )
+                  : snapshotHolders(ctx, block, drawIncludesLPs(lpWeight));
+              },
+              report
+            ),
+            lpWeight,
+            numberOfWinners,
+            options
+          )
+        : await getRandomWinners(
+            this.context(this.homeChainId, report),
+            blockNumber,
+            lpWeight,
+            numberOfWinners,
+            {
+              ...options,
+              prices:
+                options.prices ??
+                (await this.priceTokens(
+                  this.context(this.homeChainId, report),
+                  blockNumber
+                )),
+            }
+          ),
+      report,
+      this.strict
     );
 
     if (csvExportFilename) {
@@ -155,10 +725,167 @@ export const DaosWorldIndexer = class {
         csvExportFilename,
         this.logging
       );
+      await exportExclusionsToCSV(
+        winners.excluded,
+        blockNumber,
+        companionFilename(csvExportFilename, "excluded"),
+        this.logging
+      );
+    }
+
+    if (winners.proof && drawOptions?.proofExportFilename) {
+      await exportDrawProofToJSON(
+        winners.proof,
+        blockNumber,
+        drawOptions.proofExportFilename,
+        this.logging
+      );
+    }
+
+    if (drawOptions?.historyFilename) {
+      writeDrawHistory(
+        drawOptions.historyFilename,
+        appendDrawRecord(
+          history ?? { draws: [] },
+          drawRecord(winners, blockNumber, drawOptions.drawId)
+        )
+      );
     }
 
     if (this.logging) console.timeEnd("getRandomWinners");
 
     return winners;
   };
+
+  // Groups addresses likely controlled by one person, with the evidence for
+  // every link.
+  getClusters = async (
+    blockNumber: number,
+    config: ClusterConfig = {},
+    jsonExportFilename?: string
+  ) => {
+    if (this.logging) console.time("getClusters");
+
+    const report = createRunReport();
+    const clusters = withReport(
+      await this.clusterChains(blockNumber, config, report),
+      report,
+      this.strict
+    );
+
+    if (jsonExportFilename) {
+      await exportClustersToJSON(
+        clusters,
+        blockNumber,
+        jsonExportFilename,
+        this.logging
+      );
+    }
+
+    if (this.logging) console.timeEnd("getClusters");
+
+    return clusters;
+  };
+
+  // Each side is either a block number to snapshot or the path of a CSV
+  // written by getBalanceSnapshot with the same tokens.
+  diffSnapshots = async (
+    from: number | string,
+    to: number | string,
+    includeLPs: boolean = true,
+    csvExportFilename?: string,
+    jsonExportFilename?: string
+  ) => {
+    if (this.logging) console.time("diffSnapshots");
+
+    const report = createRunReport();
+    const load = async (side: number | string) => {
+      if (typeof side === "number") {
+        return this.snapshotChains(
+          side,
+          (ctx, block) => snapshotHolders(ctx, block, includeLPs),
+          report
+        );
+      }
+
+      const decimals = new Map<string, number>();
+      for (const chainId of this.providers.keys()) {
+        const ctx = this.context(chainId);
+        if (ctx.tokens.length === 0) continue;
+        const chainDecimals = await getTokenDecimals(
+          ctx,
+          ctx.tokens.map((token) => token.address)
+        );
+        for (const token of ctx.tokens) {
+          decimals.set(
+            tokenLabel(this.tokens, token).toLowerCase(),
+            chainDecimals.get(token.address.toLowerCase())!
+          );
+        }
+      }
+      return readSnapshotCSV(side, this.tokens, decimals);
+    };
+
+    const diff = withReport(
+      diffSnapshots(await load(from), await load(to), this.tokens, {
+        fromBlock: typeof from === "number" ? from : undefined,
+        toBlock: typeof to === "number" ? to : undefined,
+      }),
+      report,
+      this.strict
+    );
+
+    if (csvExportFilename) {
+      await exportSnapshotDiffToCSV(
+        diff,
+        this.tokens,
+        csvExportFilename,
+        this.logging
+      );
+    }
+    if (jsonExportFilename) {
+      await exportSnapshotDiffToJSON(diff, jsonExportFilename, this.logging);
+    }
+
+    if (this.logging) console.timeEnd("diffSnapshots");
+
+    return diff;
+  };
+
+  verifySnapshot = async (
+    blockNumber: number,
+    jsonExportFilename?: string,
+    chainId?: number
+  ) => {
+    if (this.logging) console.time("verifySnapshot");
+
+    const report = createRunReport();
+    const verification = withReport(
+      await verifySnapshot(this.context(chainId, report), blockNumber),
+      report,
+      this.strict
+    );
+
+    if (jsonExportFilename) {
+      await exportVerificationToJSON(
+        verification,
+        blockNumber,
+        jsonExportFilename,
+        this.logging
+      );
+    }
+
+    if (this.logging) console.timeEnd("verifySnapshot");
+
+    return verification;
+  };
+
+  verifyDraw = async (proofOrFilename: DrawProof | string) => {
+    const proof: DrawProof =
+      typeof proofOrFilename === "string"
+        ? JSON.parse(fs.readFileSync(proofOrFilename, "utf8"))
+        : proofOrFilename;
+
+    return verifyDraw(proof, this.provider);
+  };
 };
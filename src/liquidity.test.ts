@@ -0,0 +1,191 @@
+import { describe, expect, test } from "bun:test";
+import type { Hex } from "viem";
+import type { IndexerContext } from "./types";
+import { getERC20LPBalances, getV4LPBalances, type V4Pool } from "./liquidity";
+import { createRunReport } from "./report";
+
+const TOKEN = { address: "0x00000000000000000000000000000000000000aa" };
+const OTHER = "0x00000000000000000000000000000000000000bb";
+const HOLDER = "0x0000000000000000000000000000000000000001";
+const DECIMALS = new Map([[TOKEN.address, 18]]);
+
+type Call = { functionName: string; args?: readonly unknown[] };
+type CallResult =
+  | { status: "success"; result: unknown }
+  | { status: "failure"; error: Error };
+
+// Answers multicalls from a function of each call, with a fresh report.
+const mockContext = (answer: (call: Call) => unknown) => {
+  const report = createRunReport();
+  const ctx = {
+    provider: {
+      multicall: async ({ contracts }: { contracts: Call[] }) =>
+        contracts.map((call): CallResult => {
+          const result = answer(call);
+          return result instanceof Error
+            ? { status: "failure", error: result }
+            : { status: "success", result };
+        }),
+    },
+    report,
+  } as unknown as IndexerContext;
+  return { ctx, report };
+};
+
+// PositionInfo packs tickLower at bit 8 and tickUpper at bit 32, as 24-bit
+// two's complement.
+const positionInfo = (tickLower: number, tickUpper: number) =>
+  (BigInt(tickLower & 0xffffff) << 8n) | (BigInt(tickUpper & 0xffffff) << 32n);
+
+describe("getV4LPBalances", () => {
+  const pool: V4Pool = {
+    token: TOKEN,
+    poolId: `0x${"11".repeat(32)}` as Hex,
+    positionManager: "0x00000000000000000000000000000000000000cc",
+    poolManager: "0x00000000000000000000000000000000000000dd",
+    stateView: "0x00000000000000000000000000000000000000ee",
+  };
+
+  const v4Pool = (
+    tickLower: number,
+    tickUpper: number,
+    currency0 = TOKEN.address
+  ) =>
+    mockContext(({ functionName, args }) => {
+      switch (functionName) {
+        case "getSlot0":
+          return [1n << 96n, 0, 0, 0];
+        case "getLiquidity":
+          return 4000n;
+        case "getPoolAndPositionInfo":
+          return args![0] === 2n
+            ? new Error("execution reverted")
+            : [{ currency0 }, positionInfo(tickLower, tickUpper)];
+        case "getPositionInfo":
+          return [1000n, 0n, 0n];
+        case "getFeeGrowthInside":
+          return [0n, 0n];
+      }
+    });
+
+  test("decodes negative and positive ticks from PositionInfo", async () => {
+    const { ctx } = v4Pool(-600, 600);
+    const [holder] = await getV4LPBalances(
+      ctx,
+      1,
+      pool,
+      [{ address: HOLDER, tokenIds: [1n] }],
+      DECIMALS
+    );
+
+    const [position] = holder.balances[0].lpPositions!;
+    expect(position).toMatchObject({
+      source: "uniswap-v4",
+      tokenId: 1n,
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: 1000n,
+      inRange: true,
+      activeLiquidityShare: 0.25,
+    });
+    expect(position.amount).toBeGreaterThan(0n);
+  });
+
+  test("decodes the extremes of the tick range", async () => {
+    const { ctx } = v4Pool(-887272, 887272);
+    const [holder] = await getV4LPBalances(
+      ctx,
+      1,
+      pool,
+      [{ address: HOLDER, tokenIds: [1n] }],
+      DECIMALS
+    );
+
+    expect(holder.balances[0].lpPositions![0]).toMatchObject({
+      tickLower: -887272,
+      tickUpper: 887272,
+    });
+  });
+
+  test("counts positions ending at the current tick as out of range, with no active share", async () => {
+    // The token is currency1 here, so positions below the price hold it.
+    const ranges = [
+      [-600, 600],
+      [-600, 0],
+      [-1200, -600],
+    ];
+    const positions = await Promise.all(
+      ranges.map(async ([tickLower, tickUpper]) => {
+        const { ctx } = v4Pool(tickLower, tickUpper, OTHER);
+        const [holder] = await getV4LPBalances(
+          ctx,
+          1,
+          pool,
+          [{ address: HOLDER, tokenIds: [1n] }],
+          DECIMALS
+        );
+        const [position] = holder.balances[0].lpPositions!;
+        return [position.inRange, position.activeLiquidityShare];
+      })
+    );
+
+    expect(positions).toEqual([
+      [true, 0.25],
+      [false, 0],
+      [false, 0],
+    ]);
+  });
+
+  test("reports token ids whose position cannot be read", async () => {
+    const { ctx, report } = v4Pool(-600, 600);
+    const holders = await getV4LPBalances(
+      ctx,
+      1,
+      pool,
+      [{ address: HOLDER, tokenIds: [1n, 2n] }],
+      DECIMALS
+    );
+
+    expect(holders[0].balances[0].lpPositions).toHaveLength(1);
+    expect(report.failedTokenIds.map((failed) => failed.tokenId)).toEqual([2n]);
+  });
+});
+
+describe("getERC20LPBalances", () => {
+  const pool = { token: TOKEN, pairAddress: OTHER };
+  const shares = new Map([
+    [HOLDER, 25n],
+    ["0x0000000000000000000000000000000000000002", 0n],
+  ]);
+
+  test("values each share at its part of the token reserve", async () => {
+    const { ctx } = mockContext(({ functionName }) =>
+      functionName === "token0"
+        ? OTHER
+        : functionName === "getReserves"
+        ? [5000n, 1000n, 0]
+        : 100n
+    );
+    const holders = await getERC20LPBalances(ctx, 1, pool, shares, DECIMALS);
+
+    expect(holders).toHaveLength(1);
+    expect(holders[0].holderAddress).toBe(HOLDER);
+    expect(holders[0].balances[0]).toMatchObject({
+      lpBalance: 250n,
+      lpFees: 0n,
+    });
+    expect(holders[0].balances[0].lpPositions![0].activeLiquidityShare).toBe(
+      0.25
+    );
+  });
+
+  test("reports a pair whose state cannot be read", async () => {
+    const { ctx, report } = mockContext(({ functionName }) =>
+      functionName === "getReserves" ? new Error("execution reverted") : 100n
+    );
+    const holders = await getERC20LPBalances(ctx, 1, pool, shares, DECIMALS);
+
+    expect(holders).toEqual([]);
+    expect(report.missingSlot0).toEqual([{ chainId: 8453, pool: OTHER }]);
+  });
+});
@@ -0,0 +1,594 @@
+import { parseAbiItem, type Hex } from "viem";
+import { TickMath } from "@uniswap/v3-sdk";
+import type {
+  Balance,
+  IndexerContext,
+  LiquiditySource,
+  LPHolder,
+  LPMint,
+  LPPosition,
+  Token,
+} from "./types";
+import { clampToChainTip, getChainInfo } from "./chains";
+import { lpMintsStream } from "./positions";
+import {
+  reportFailedTokenId,
+  reportMissingSlot0,
+  reportUnscannedRange,
+} from "./report";
+import { ConfigurationError } from "./errors";
+import { lockStreams } from "./store";
+
+const ERC20_LP_ABI = [
+  {
+    name: "token0",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "token1",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  // Uniswap V2 returns uint112 reserves and Solidly forks uint256 ones; both
+  // decode as uint256.
+  {
+    name: "getReserves",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "reserve0", type: "uint256" },
+      { name: "reserve1", type: "uint256" },
+      { name: "blockTimestampLast", type: "uint256" },
+    ],
+  },
+  {
+    name: "totalSupply",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+] as const;
+
+const MODIFY_LIQUIDITY_EVENT = parseAbiItem(
+  "event ModifyLiquidity(bytes32 indexed id, address indexed sender, int24 tickLower, int24 tickUpper, int256 liquidityDelta, bytes32 salt)"
+);
+
+const V4_POSITION_MANAGER_ABI = [
+  {
+    name: "getPoolAndPositionInfo",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "tokenId", type: "uint256" }],
+    outputs: [
+      {
+        name: "poolKey",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "info", type: "uint256" },
+    ],
+  },
+] as const;
+
+const V4_STATE_VIEW_ABI = [
+  {
+    name: "getSlot0",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "poolId", type: "bytes32" }],
+    outputs: [
+      { name: "sqrtPriceX96", type: "uint160" },
+      { name: "tick", type: "int24" },
+      { name: "protocolFee", type: "uint24" },
+      { name: "lpFee", type: "uint24" },
+    ],
+  },
+  {
+    name: "getLiquidity",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "poolId", type: "bytes32" }],
+    outputs: [{ name: "liquidity", type: "uint128" }],
+  },
+  {
+    name: "getPositionInfo",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "poolId", type: "bytes32" },
+      { name: "owner", type: "address" },
+      { name: "tickLower", type: "int24" },
+      { name: "tickUpper", type: "int24" },
+      { name: "salt", type: "bytes32" },
+    ],
+    outputs: [
+      { name: "liquidity", type: "uint128" },
+      { name: "feeGrowthInside0LastX128", type: "uint256" },
+      { name: "feeGrowthInside1LastX128", type: "uint256" },
+    ],
+  },
+  {
+    name: "getFeeGrowthInside",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "poolId", type: "bytes32" },
+      { name: "tickLower", type: "int24" },
+      { name: "tickUpper", type: "int24" },
+    ],
+    outputs: [
+      { name: "feeGrowthInside0X128", type: "uint256" },
+      { name: "feeGrowthInside1X128", type: "uint256" },
+    ],
+  },
+] as const;
+
+export type V4Pool = {
+  token: Token;
+  poolId: Hex;
+  positionManager: string;
+  poolManager: string;
+  stateView: string;
+};
+
+// lpAddress is shorthand for a single Uniswap V3 pool.
+export const getLiquiditySources = (token: Token): LiquiditySource[] => [
+  ...(token.lpAddress
+    ? [{ type: "uniswap-v3" as const, poolAddress: token.lpAddress }]
+    : []),
+  ...(token.liquiditySources ?? []),
+];
+
+export const getV3Pools = (tokens: Token[]) =>
+  tokens.flatMap((token) =>
+    getLiquiditySources(token).flatMap((source) =>
+      source.type === "uniswap-v3"
+        ? [{ token, poolAddress: source.poolAddress }]
+        : []
+    )
+  );
+
+export const getERC20LPPools = (tokens: Token[]) =>
+  tokens.flatMap((token) =>
+    getLiquiditySources(token).flatMap((source) =>
+      source.type === "erc20-lp"
+        ? [{ token, pairAddress: source.pairAddress }]
+        : []
+    )
+  );
+
+export const getV4Pools = (tokens: Token[], chainId: number): V4Pool[] =>
+  tokens.flatMap((token) =>
+    getLiquiditySources(token).flatMap((source) => {
+      if (source.type !== "uniswap-v4") return [];
+
+      const defaults = getChainInfo(chainId).v4;
+      const positionManager =
+        source.positionManager ?? defaults?.positionManager;
+      const poolManager = source.poolManager ?? defaults?.poolManager;
+      const stateView = source.stateView ?? defaults?.stateView;
+      if (!positionManager || !poolManager || !stateView) {
+        throw new ConfigurationError(
+          `Uniswap V4 pool ${source.poolId} needs positionManager, poolManager and stateView on chain ${chainId}`
+        );
+      }
+
+      return [
+        {
+          token,
+          poolId: source.poolId,
+          positionManager,
+          poolManager,
+          stateView,
+        },
+      ];
+    })
+  );
+
+// Contracts that hold liquidity or positions on behalf of others.
+export const getLiquidityContracts = (tokens: Token[], chainId: number) => [
+  ...getV3Pools(tokens).map((pool) => ({
+    address: pool.poolAddress,
+    reason: "Liquidity pool",
+  })),
+  ...getERC20LPPools(tokens).map((pool) => ({
+    address: pool.pairAddress,
+    reason: "Liquidity pool",
+  })),
+  ...getV4Pools(tokens, chainId).flatMap((pool) => [
+    { address: pool.poolManager, reason: "Uniswap V4 pool manager" },
+    { address: pool.positionManager, reason: "Uniswap V4 position manager" },
+  ]),
+];
+
+// The amounts of liquidity between two ticks, rounded down like the pool
+// does when burning.
+const getAmountsForLiquidity = (
+  sqrtPriceX96: bigint,
+  currentTick: number,
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint
+) => {
+  const sqrtLower = BigInt(TickMath.getSqrtRatioAtTick(tickLower).toString());
+  const sqrtUpper = BigInt(TickMath.getSqrtRatioAtTick(tickUpper).toString());
+  const amount0 = (lower: bigint, upper: bigint) =>
+    ((liquidity << 96n) * (upper - lower)) / upper / lower;
+  const amount1 = (lower: bigint, upper: bigint) =>
+    (liquidity * (upper - lower)) >> 96n;
+
+  if (currentTick < tickLower) {
+    return { amount0: amount0(sqrtLower, sqrtUpper), amount1: 0n };
+  }
+  if (currentTick < tickUpper) {
+    return {
+      amount0: amount0(sqrtPriceX96, sqrtUpper),
+      amount1: amount1(sqrtLower, sqrtPriceX96),
+    };
+  }
+  return { amount0: 0n, amount1: amount1(sqrtLower, sqrtUpper) };
+};
+
+// PositionInfo packs | poolId (200 bits) | tickUpper | tickLower | subscriber |.
+const decodeTick = (info: bigint, offset: bigint) => {
+  const tick = Number((info >> offset) & 0xffffffn);
+  return tick >= 0x800000 ? tick - 0x1000000 : tick;
+};
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+// V4 position manager mints leave a ModifyLiquidity log on the pool manager
+// with the position manager as sender and the token id as salt.
+export const syncV4Mints = (
+  ctx: IndexerContext,
+  pool: V4Pool,
+  blockNumber: number
+) =>
+  lockStreams(ctx.store, [lpMintsStream(pool.poolId)], async () => {
+    const { provider: client, store } = ctx;
+    const stream = lpMintsStream(pool.poolId);
+    const head = store.head(stream);
+    if (head !== undefined && head >= blockNumber) return;
+
+    const known = new Set(
+      store.read<LPMint>(stream).map((mint) => mint.tokenId)
+    );
+
+    const fromBlock = head === undefined ? 0 : head + 1;
+    const scannedTo = await clampToChainTip(ctx, blockNumber);
+    if (fromBlock > scannedTo) return;
+
+    try {
+      const logs = await client.getLogs({
+        address: pool.poolManager as Hex,
+        event: MODIFY_LIQUIDITY_EVENT,
+        args: { id: pool.poolId, sender: pool.positionManager as Hex },
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(scannedTo),
+      });
+
+      const mints: LPMint[] = [];
+      for (const log of logs) {
+        if (!log.args.salt) continue;
+        const tokenId = BigInt(log.args.salt);
+        if (known.has(tokenId)) continue;
+        known.add(tokenId);
+        mints.push({ tokenId, blockNumber: Number(log.blockNumber) });
+      }
+
+      store.append(stream, scannedTo, mints);
+    } catch (error) {
+      reportUnscannedRange(ctx, pool.poolManager, fromBlock, scannedTo, error);
+    }
+  });
+
+// V4 fees are accounted per position in the pool manager and paid out on
+// every liquidity change, so unclaimed fees are the fee growth since then.
+export const getV4LPBalances = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  pool: V4Pool,
+  holders: LPHolder[],
+  decimals: Map<string, number>
+): Promise<Balance[]> => {
+  const { provider: client } = ctx;
+  const stateView = pool.stateView as Hex;
+
+  const [slot0Result, liquidityResult] = await client.multicall({
+    contracts: [
+      {
+        address: stateView,
+        abi: V4_STATE_VIEW_ABI,
+        functionName: "getSlot0" as const,
+        args: [pool.poolId],
+      },
+      {
+        address: stateView,
+        abi: V4_STATE_VIEW_ABI,
+        functionName: "getLiquidity" as const,
+        args: [pool.poolId],
+      },
+    ],
+    blockNumber: BigInt(blockNumber),
+  });
+  if (slot0Result.status !== "success") {
+    reportMissingSlot0(ctx, pool.poolId);
+    return [];
+  }
+  const [sqrtPriceX96, tick] = slot0Result.result;
+  const poolLiquidity =
+    liquidityResult.status === "success" ? liquidityResult.result : 0n;
+
+  const positions = holders.flatMap((holder) =>
+    holder.tokenIds.map((tokenId) => ({ tokenId, holder: holder.address }))
+  );
+
+  const CHUNK_SIZE = 100;
+  const byHolder = new Map<string, LPPosition[]>();
+
+  for (let i = 0; i < positions.length; i += CHUNK_SIZE) {
+    const chunk = positions.slice(i, i + CHUNK_SIZE);
+    const infos = await client.multicall({
+      contracts: chunk.map(({ tokenId }) => ({
+        address: pool.positionManager as Hex,
+        abi: V4_POSITION_MANAGER_ABI,
+        functionName: "getPoolAndPositionInfo" as const,
+        args: [tokenId],
+      })),
+      blockNumber: BigInt(blockNumber),
+    });
+
+    const decoded = chunk.flatMap((position, index) => {
+      const result = infos[index];
+      if (result.status !== "success") {
+        reportFailedTokenId(
+          ctx,
+          pool.positionManager,
+          position.tokenId,
+          `getPoolAndPositionInfo() failed: ${result.error}`
+        );
+        return [];
+      }
+      const [poolKey, info] = result.result;
+      return [
+        {
+          ...position,
+          currency0: poolKey.currency0,
+          tickLower: decodeTick(info, 8n),
+          tickUpper: decodeTick(info, 32n),
+          salt: `0x${position.tokenId.toString(16).padStart(64, "0")}` as Hex,
+        },
+      ];
+    });
+
+    const stateResults = await client.multicall({
+      contracts: decoded.flatMap((position) => [
+        {
+          address: stateView,
+          abi: V4_STATE_VIEW_ABI,
+          functionName: "getPositionInfo" as const,
+          args: [
+            pool.poolId,
+            pool.positionManager as Hex,
+            position.tickLower,
+            position.tickUpper,
+            position.salt,
+          ],
+        },
+        {
+          address: stateView,
+          abi: V4_STATE_VIEW_ABI,
+          functionName: "getFeeGrowthInside" as const,
+          args: [pool.poolId, position.tickLower, position.tickUpper],
+        },
+      ]),
+      blockNumber: BigInt(blockNumber),
+    });
+
+    decoded.forEach((position, index) => {
+      const info = stateResults[index * 2];
+      const growth = stateResults[index * 2 + 1];
+      if (info.status !== "success") {
+        reportFailedTokenId(
+          ctx,
+          pool.positionManager,
+          position.tokenId,
+          `getPositionInfo() failed: ${info.error}`
+        );
+        return;
+      }
+
+      const [liquidity, feeGrowth0Last, feeGrowth1Last] = info.result as [
+        bigint,
+        bigint,
+        bigint
+      ];
+      const isToken0 =
+        pool.token.address.toLowerCase() === position.currency0.toLowerCase();
+
+      let fees = 0n;
+      if (ctx.includeLPFees && growth.status !== "success") {
+        reportFailedTokenId(
+          ctx,
+          pool.positionManager,
+          position.tokenId,
+          "Uncollected fees could not be read"
+        );
+      } else if (ctx.includeLPFees) {
+        const [feeGrowth0, feeGrowth1] = growth.result as [bigint, bigint];
+        const delta = isToken0
+          ? (feeGrowth0 - feeGrowth0Last) & MAX_UINT256
+          : (feeGrowth1 - feeGrowth1Last) & MAX_UINT256;
+        fees = (delta * liquidity) >> 128n;
+      }
+      if (liquidity === 0n && fees === 0n) return;
+
+      const amounts = getAmountsForLiquidity(
+        sqrtPriceX96,
+        tick,
+        position.tickLower,
+        position.tickUpper,
+        liquidity
+      );
+      const inRange = position.tickLower <= tick && tick < position.tickUpper;
+
+      if (!byHolder.has(position.holder)) byHolder.set(position.holder, []);
+      byHolder.get(position.holder)!.push({
+        source: "uniswap-v4",
+        pool: pool.poolId,
+        tokenId: position.tokenId,
+        tickLower: position.tickLower,
+        tickUpper: position.tickUpper,
+        liquidity,
+        amount: isToken0 ? amounts.amount0 : amounts.amount1,
+        fees,
+        inRange,
+        activeLiquidityShare:
+          inRange && poolLiquidity
+            ? Number((liquidity * 10n ** 18n) / poolLiquidity) / 1e18
+            : 0,
+      });
+    });
+  }
+
+  return toBalances(pool.token, byHolder, decimals);
+};
+
+// V2-style pools compound swap fees into their reserves, so each share is
+// worth its part of the token reserve and lpFees stay zero.
+export const getERC20LPBalances = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  pool: { token: Token; pairAddress: string },
+  shares: Map<string, bigint>,
+  decimals: Map<string, number>
+): Promise<Balance[]> => {
+  const pair = pool.pairAddress as Hex;
+  const [token0Result, reservesResult, totalSupplyResult] =
+    await ctx.provider.multicall({
+      contracts: [
+        { address: pair, abi: ERC20_LP_ABI, functionName: "token0" as const },
+        {
+          address: pair,
+          abi: ERC20_LP_ABI,
+          functionName: "getReserves" as const,
+        },
+        {
+          address: pair,
+          abi: ERC20_LP_ABI,
+          functionName: "totalSupply" as const,
+        },
+      ],
+      blockNumber: BigInt(blockNumber),
+    });
+  // Without the pair's state no share can be valued, as with a V3 pool
+  // whose slot0 is missing.
+  if (
+    token0Result.status !== "success" ||
+    reservesResult.status !== "success" ||
+    totalSupplyResult.status !== "success"
+  ) {
+    reportMissingSlot0(ctx, pool.pairAddress);
+    return [];
+  }
+  const token0 = token0Result.result;
+  const reserves = reservesResult.result;
+  const totalSupply = totalSupplyResult.result;
+  if (totalSupply === 0n) return [];
+
+  const reserve =
+    token0.toLowerCase() === pool.token.address.toLowerCase()
+      ? reserves[0]
+      : reserves[1];
+
+  const byHolder = new Map<string, LPPosition[]>();
+  for (const [holder, amount] of shares) {
+    if (amount === 0n) continue;
+    byHolder.set(holder, [
+      {
+        source: "erc20-lp",
+        pool: pool.pairAddress,
+        liquidity: amount,
+        amount: (amount * reserve) / totalSupply,
+        fees: 0n,
+        inRange: true,
+        activeLiquidityShare:
+          Number((amount * 10n ** 18n) / totalSupply) / 1e18,
+      },
+    ]);
+  }
+
+  return toBalances(pool.token, byHolder, decimals);
+};
+
+const toBalances = (
+  token: Token,
+  byHolder: Map<string, LPPosition[]>,
+  decimals: Map<string, number>
+): Balance[] =>
+  Array.from(byHolder.entries())
+    .map(([holderAddress, lpPositions]) => ({
+      holderAddress,
+      balances: [
+        {
+          tokenAddress: token.address,
+          balance: 0n,
+          lpBalance: lpPositions.reduce((sum, p) => sum + p.amount, 0n),
+          lpFees: lpPositions.reduce((sum, p) => sum + p.fees, 0n),
+          lpPositions,
+          decimals: decimals.get(token.address.toLowerCase())!,
+        },
+      ],
+    }))
+    .filter(
+      (holder) =>
+        holder.balances[0].lpBalance > 0n || holder.balances[0].lpFees > 0n
+    );
+
+// Sums balances of the same holder and token across liquidity sources.
+export const mergeLPBalances = (sources: Balance[][]): Balance[] => {
+  const merged = new Map<string, Map<string, Balance["balances"][number]>>();
+
+  for (const holder of sources.flat()) {
+    if (!merged.has(holder.holderAddress)) {
+      merged.set(holder.holderAddress, new Map());
+    }
+    const holderBalances = merged.get(holder.holderAddress)!;
+
+    for (const balance of holder.balances) {
+      const existing = holderBalances.get(balance.tokenAddress);
+      holderBalances.set(
+        balance.tokenAddress,
+        existing
+          ? {
+              ...existing,
+              lpBalance: existing.lpBalance + balance.lpBalance,
+              lpFees: existing.lpFees + balance.lpFees,
+              lpPositions: [
+                ...(existing.lpPositions ?? []),
+                ...(balance.lpPositions ?? []),
+              ],
+            }
+          : balance
+      );
+    }
+  }
+
+  return Array.from(merged.entries()).map(([holderAddress, balances]) => ({
+    holderAddress,
+    balances: Array.from(balances.values()),
+  }));
+};
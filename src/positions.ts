@@ -0,0 +1,160 @@
+import { parseAbiItem, type Hex } from "viem";
+import type {
+  IndexerContext,
+  LPHolder,
+  LPMint,
+  PositionTransfer,
+} from "./types";
+import { reportUnscannedRange } from "./report";
+import { lockStreams } from "./store";
+
+const TRANSFER_EVENT = parseAbiItem(
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"
+);
+
+// Pools are keyed by their address, or by their id for singleton pool
+// managers like Uniswap V4.
+export const lpMintsStream = (poolKey: string) =>
+  `lp-mints-${poolKey.toLowerCase()}`;
+export const lpPositionsStream = (poolKey: string) =>
+  `lp-positions-${poolKey.toLowerCase()}`;
+
+// Position NFT transfers are scanned once for all pools of a position manager,
+// starting from the lowest block any pool still needs: its indexed head, or
+// its first mint. Each pool is scanned only as far as its mints are indexed,
+// which is never past the chain tip or a failed mint, so no token id minted
+// in the scanned blocks is missed.
+export const syncPositionTransfers = (
+  ctx: IndexerContext,
+  blockNumber: number,
+  positionManager: string,
+  poolKeys: string[]
+) =>
+  lockStreams(ctx.store, poolKeys.map(lpPositionsStream), async () => {
+    const { provider: client, store } = ctx;
+    const pools = poolKeys
+      .map((key) => {
+        const head = store.head(lpPositionsStream(key));
+        const mints = store.read<LPMint>(lpMintsStream(key));
+        const firstMintBlock = Math.min(
+          ...mints.map((mint) => mint.blockNumber)
+        );
+        return {
+          key,
+          head: head ?? -1,
+          startBlock: head !== undefined ? head + 1 : firstMintBlock,
+          endBlock: Math.min(blockNumber, store.head(lpMintsStream(key)) ?? -1),
+          tokenIds: new Set(mints.map((mint) => mint.tokenId)),
+        };
+      })
+      .filter((pool) => {
+        if (pool.startBlock <= pool.endBlock) return true;
+        // Nothing minted yet, so nothing can have moved up to endBlock.
+        if (pool.tokenIds.size === 0 && pool.head < pool.endBlock) {
+          store.append(lpPositionsStream(pool.key), pool.endBlock, []);
+        }
+        return false;
+      });
+
+    if (pools.length === 0) return;
+
+    const BLOCK_INCREMENT = 2000n;
+
+    let currentBlock = BigInt(
+      Math.min(...pools.map((pool) => pool.startBlock))
+    );
+    const targetBlock = BigInt(Math.max(...pools.map((pool) => pool.endBlock)));
+
+    try {
+      while (currentBlock <= targetBlock) {
+        const endBlock =
+          currentBlock + BLOCK_INCREMENT > targetBlock
+            ? targetBlock
+            : currentBlock + BLOCK_INCREMENT;
+
+        const transferLogs = await client.getLogs({
+          address: positionManager as Hex,
+          events: [TRANSFER_EVENT],
+          fromBlock: currentBlock,
+          toBlock: endBlock,
+        });
+
+        for (const pool of pools) {
+          if (BigInt(pool.startBlock) > endBlock) continue;
+          if (BigInt(pool.endBlock) < currentBlock) continue;
+
+          const positionTransfers: PositionTransfer[] = [];
+          for (const log of transferLogs) {
+            if (!log.topics[3]) continue;
+            if (log.blockNumber < BigInt(pool.startBlock)) continue;
+            if (log.blockNumber > BigInt(pool.endBlock)) continue;
+
+            const tokenId = BigInt(log.topics[3]);
+
+            if (!pool.tokenIds.has(tokenId)) continue;
+
+            positionTransfers.push({
+              tokenId,
+              from: `0x${log.topics[1].slice(26)}`.toLowerCase(),
+              to: `0x${log.topics[2].slice(26)}`.toLowerCase(),
+              blockNumber: Number(log.blockNumber),
+              logIndex: log.logIndex,
+            });
+          }
+
+          store.append(
+            lpPositionsStream(pool.key),
+            Math.min(Number(endBlock), pool.endBlock),
+            positionTransfers
+          );
+        }
+
+        currentBlock = endBlock + 1n;
+      }
+    } catch (error) {
+      reportUnscannedRange(
+        ctx,
+        positionManager,
+        Number(currentBlock),
+        Number(targetBlock),
+        error
+      );
+    }
+  });
+
+// Token ids must be unique across poolKeys, i.e. come from one position manager.
+export const replayPositionOwnership = (
+  ctx: IndexerContext,
+  blockNumber: number,
+  poolKeys: string[]
+): LPHolder[] => {
+  const positionTransfers = poolKeys
+    .flatMap((key) => ctx.store.read<PositionTransfer>(lpPositionsStream(key)))
+    .filter((transfer) => transfer.blockNumber <= blockNumber)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const holders = new Map<string, Set<bigint>>();
+
+  for (const { tokenId, from, to } of positionTransfers) {
+    if (holders.has(from)) {
+      holders.get(from)!.delete(tokenId);
+      if (holders.get(from)!.size === 0) {
+        holders.delete(from);
+      }
+    }
+
+    if (to !== "0x0000000000000000000000000000000000000000") {
+      if (!holders.has(to)) {
+        holders.set(to, new Set());
+      }
+      holders.get(to)!.add(tokenId);
+    }
+  }
+
+  return Array.from(holders.entries())
+    .map(([address, tokenIds]) => ({
+      address,
+      tokenIds: Array.from(tokenIds),
+    }))
+    .filter((holder) => holder.tokenIds.length > 0);
+};
@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test";
+import type { Balance, IndexerContext, TokenPrice } from "./types";
+import { getTokenPrices, holderValue, unitPrice } from "./prices";
+import { createRunReport } from "./report";
+import { ConfigurationError } from "./errors";
+
+const WETH = "0x00000000000000000000000000000000000000ee";
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const USDC = "0x00000000000000000000000000000000000000ab";
+const POOL = "0x00000000000000000000000000000000000000b1";
+const PAIR = "0x00000000000000000000000000000000000000b2";
+const OTHER_POOL = "0x00000000000000000000000000000000000000b3";
+
+const Q96 = 2n ** 96n;
+
+type Call = { address: string; functionName: string };
+
+// Answers each call from state, keyed by address and function name, where a
+// missing key reverts.
+const mockContext = (state: Record<string, unknown>) => {
+  const report = createRunReport();
+  const ctx = {
+    provider: {
+      multicall: async ({ contracts }: { contracts: Call[] }) =>
+        contracts.map(({ address, functionName }) => {
+          const key = `${address}:${functionName}`;
+          return key in state
+            ? { status: "success", result: state[key] }
+            : { status: "failure", error: new Error("execution reverted") };
+        }),
+    },
+    tokens: [
+      { address: TOKEN, lpAddress: POOL },
+      {
+        address: USDC,
+        liquiditySources: [{ type: "erc20-lp", pairAddress: PAIR }],
+      },
+      { address: WETH, liquiditySources: [] },
+    ],
+    report,
+  } as unknown as IndexerContext;
+  return { ctx, report };
+};
+
+// TOKEN trades at 4 WETH in a V3 pool; 1 USDC, with 6 decimals, at 0.0005
+// WETH in a V2-style pair.
+const MARKET = {
+  [`${POOL}:token0`]: TOKEN,
+  [`${POOL}:token1`]: WETH,
+  [`${POOL}:slot0`]: [2n * Q96, 13863, 0, 0, 0, 0, true],
+  [`${PAIR}:token0`]: WETH,
+  [`${PAIR}:token1`]: USDC,
+  [`${PAIR}:getReserves`]: [10n ** 18n, 2000n * 10n ** 6n, 0n],
+};
+
+const priceOf = (prices: TokenPrice[], tokenAddress: string) =>
+  prices.find((price) => price.tokenAddress === tokenAddress)!;
+
+describe("getTokenPrices", () => {
+  test("prices tokens per unit from V3 pools, V2-style pairs and the quote token", async () => {
+    const { ctx } = mockContext(MARKET);
+    const prices = await getTokenPrices(ctx, 10, { quoteToken: WETH });
+
+    expect(unitPrice(priceOf(prices, TOKEN), 18)).toBe(4);
+    expect(unitPrice(priceOf(prices, USDC), 6)).toBe(0.0005);
+    expect(unitPrice(priceOf(prices, WETH), 18)).toBe(1);
+    expect(prices.map((price) => price.pool)).toEqual([POOL, PAIR, "quote"]);
+  });
+
+  test("inverts the price when the token is token1", async () => {
+    const { ctx } = mockContext({
+      ...MARKET,
+      [`${POOL}:token0`]: WETH,
+      [`${POOL}:token1`]: TOKEN,
+    });
+    const prices = await getTokenPrices(ctx, 10, { quoteToken: WETH });
+
+    expect(unitPrice(priceOf(prices, TOKEN), 18)).toBe(0.25);
+  });
+
+  test("values amounts in quote token wei, whatever the token's decimals", async () => {
+    const { ctx } = mockContext(MARKET);
+    const prices = await getTokenPrices(ctx, 10, { quoteToken: WETH });
+    const holder: Balance = {
+      holderAddress: "0x0000000000000000000000000000000000000001",
+      balances: [
+        {
+          tokenAddress: TOKEN,
+          balance: 10n ** 18n,
+          lpBalance: 10n ** 18n,
+          lpFees: 0n,
+          decimals: 18,
+        },
+        {
+          tokenAddress: USDC,
+          balance: 2000n * 10n ** 6n,
+          lpBalance: 0n,
+          lpFees: 0n,
+          decimals: 6,
+        },
+      ],
+    };
+
+    expect(holderValue(holder, prices)).toBe(9n * 10n ** 18n);
+  });
+
+  test("reads the pool set in valuation.pools", async () => {
+    const { ctx } = mockContext({
+      ...MARKET,
+      [`${OTHER_POOL}:token0`]: TOKEN,
+      [`${OTHER_POOL}:token1`]: WETH,
+      [`${OTHER_POOL}:slot0`]: [3n * Q96, 0, 0, 0, 0, 0, true],
+    });
+    const prices = await getTokenPrices(ctx, 10, {
+      quoteToken: WETH,
+      pools: { [TOKEN]: OTHER_POOL },
+    });
+
+    expect(unitPrice(priceOf(prices, TOKEN), 18)).toBe(9);
+  });
+
+  test("reports pools it cannot read and leaves their tokens unpriced", async () => {
+    const { [`${PAIR}:getReserves`]: _reserves, ...market } = MARKET;
+    const { ctx, report } = mockContext(market);
+    const prices = await getTokenPrices(ctx, 10, { quoteToken: WETH });
+
+    expect(prices.map((price) => price.tokenAddress)).toEqual([TOKEN, WETH]);
+    expect(report.missingSlot0).toEqual([{ chainId: 8453, pool: PAIR }]);
+  });
+
+  test("rejects tokens without a pool paired with the quote token", async () => {
+    const { ctx } = mockContext({ ...MARKET, [`${POOL}:token1`]: USDC });
+
+    await expect(getTokenPrices(ctx, 10, { quoteToken: WETH })).rejects.toThrow(
+      ConfigurationError
+    );
+    await expect(
+      getTokenPrices({ ...ctx, chainId: 10 }, 10, { quoteToken: WETH })
+    ).rejects.toThrow("No quote token for chain 10");
+  });
+});
+
+describe("unitPrice", () => {
+  test("reads quote tokens without 18 decimals in their own units", () => {
+    const price: TokenPrice = {
+      tokenAddress: WETH,
+      chainId: 8453,
+      quoteToken: USDC,
+      quoteDecimals: 6,
+      pool: PAIR,
+      numerator: 2000n * 10n ** 6n,
+      denominator: 10n ** 18n,
+    };
+
+    expect(unitPrice(price, 18)).toBe(2000);
+  });
+});
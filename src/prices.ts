@@ -0,0 +1,243 @@
+import { formatUnits, type Hex } from "viem";
+import type {
+  Balance,
+  IndexerContext,
+  TokenPrice,
+  ValuationConfig,
+} from "./types";
+import { DEFAULT_CHAIN_ID, getChainId } from "./chains";
+import { getERC20LPPools, getV3Pools } from "./liquidity";
+import { ConfigurationError } from "./errors";
+import { reportMissingSlot0 } from "./report";
+
+const PRICE_POOL_ABI = [
+  {
+    name: "token0",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "token1",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "slot0",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "sqrtPriceX96", type: "uint160" },
+      { name: "tick", type: "int24" },
+      { name: "observationIndex", type: "uint16" },
+      { name: "observationCardinality", type: "uint16" },
+      { name: "observationCardinalityNext", type: "uint16" },
+      { name: "feeProtocol", type: "uint8" },
+      { name: "unlocked", type: "bool" },
+    ],
+  },
+  {
+    name: "getReserves",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "reserve0", type: "uint256" },
+      { name: "reserve1", type: "uint256" },
+      { name: "blockTimestampLast", type: "uint256" },
+    ],
+  },
+] as const;
+
+const Q192 = 2n ** 192n;
+
+export const getQuoteToken = (valuation: ValuationConfig, chainId: number) =>
+  (chainId === DEFAULT_CHAIN_ID
+    ? valuation.quoteToken
+    : valuation.quoteTokens?.[chainId]
+  )?.toLowerCase();
+
+// Reads each token's price in the quote token at blockNumber from the
+// sqrtPriceX96 of a V3 pool, or the reserves of a V2-style pair, that pairs it
+// with the quote token. V4 pools only expose their id, so tokens that trade
+// only on V4 need a pool in valuation.pools. Pools that cannot be read are
+// reported, and their tokens are left unpriced.
+export const getTokenPrices = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  valuation: ValuationConfig
+): Promise<TokenPrice[]> => {
+  const chainId = getChainId(ctx);
+  const quoteToken = getQuoteToken(valuation, chainId);
+  if (!quoteToken) {
+    throw new ConfigurationError(`No quote token for chain ${chainId}`);
+  }
+
+  const overrides = new Map(
+    Object.entries(valuation.pools ?? {}).map(([token, pool]) => [
+      token.toLowerCase(),
+      pool,
+    ])
+  );
+  const v3Pools = getV3Pools(ctx.tokens);
+  const pairs = getERC20LPPools(ctx.tokens);
+
+  const quote = {
+    quoteToken,
+    quoteDecimals: valuation.quoteDecimals ?? 18,
+    quoteSymbol: valuation.quoteSymbol,
+  };
+  const prices: TokenPrice[] = [];
+  for (const token of ctx.tokens) {
+    const tokenAddress = token.address.toLowerCase();
+    if (tokenAddress === quoteToken) {
+      prices.push({
+        tokenAddress,
+        chainId,
+        ...quote,
+        pool: "quote",
+        numerator: 1n,
+        denominator: 1n,
+      });
+      continue;
+    }
+
+    const override = overrides.get(tokenAddress);
+    const candidates = override
+      ? [override]
+      : [
+          ...v3Pools
+            .filter((pool) => pool.token.address.toLowerCase() === tokenAddress)
+            .map((pool) => pool.poolAddress),
+          ...pairs
+            .filter((pool) => pool.token.address.toLowerCase() === tokenAddress)
+            .map((pool) => pool.pairAddress),
+        ];
+
+    const price = await readPrice(
+      ctx,
+      blockNumber,
+      tokenAddress,
+      quoteToken,
+      candidates
+    );
+    if (price) prices.push({ tokenAddress, chainId, ...quote, ...price });
+  }
+
+  return prices;
+};
+
+const readPrice = async (
+  ctx: IndexerContext,
+  blockNumber: number,
+  tokenAddress: string,
+  quoteToken: string,
+  candidates: string[]
+) => {
+  const pairings = await ctx.provider.multicall({
+    contracts: candidates.flatMap((pool) => [
+      {
+        address: pool as Hex,
+        abi: PRICE_POOL_ABI,
+        functionName: "token0" as const,
+      },
+      {
+        address: pool as Hex,
+        abi: PRICE_POOL_ABI,
+        functionName: "token1" as const,
+      },
+    ]),
+    blockNumber: BigInt(blockNumber),
+  });
+
+  const index = candidates.findIndex((_pool, i) => {
+    const token0 = pairings[2 * i].result?.toLowerCase();
+    const token1 = pairings[2 * i + 1].result?.toLowerCase();
+    return (
+      (token0 === tokenAddress && token1 === quoteToken) ||
+      (token0 === quoteToken && token1 === tokenAddress)
+    );
+  });
+  if (index === -1) {
+    throw new ConfigurationError(
+      `No pool pairs ${tokenAddress} with the quote token ${quoteToken}; set one in valuation.pools`
+    );
+  }
+
+  const pool = candidates[index];
+  const isToken0 = pairings[2 * index].result!.toLowerCase() === tokenAddress;
+
+  // V3 pools have slot0 and V2-style pairs getReserves; the other call fails.
+  const [slot0, reserves] = await ctx.provider.multicall({
+    contracts: [
+      {
+        address: pool as Hex,
+        abi: PRICE_POOL_ABI,
+        functionName: "slot0" as const,
+      },
+      {
+        address: pool as Hex,
+        abi: PRICE_POOL_ABI,
+        functionName: "getReserves" as const,
+      },
+    ],
+    blockNumber: BigInt(blockNumber),
+  });
+
+  if (slot0.status === "success") {
+    const priceX192 = slot0.result[0] * slot0.result[0];
+    return isToken0
+      ? { pool, numerator: priceX192, denominator: Q192 }
+      : { pool, numerator: Q192, denominator: priceX192 };
+  }
+  if (reserves.status === "success" && reserves.result[0] > 0n) {
+    const [reserve0, reserve1] = reserves.result;
+    return isToken0
+      ? { pool, numerator: reserve1, denominator: reserve0 }
+      : { pool, numerator: reserve0, denominator: reserve1 };
+  }
+
+  reportMissingSlot0(ctx, pool);
+  return undefined;
+};
+
+// Balances from a single chain snapshot carry no chain id.
+export const findTokenPrice = (
+  prices: TokenPrice[],
+  balance: Balance["balances"][number]
+) =>
+  prices.find(
+    (price) =>
+      price.tokenAddress === balance.tokenAddress.toLowerCase() &&
+      (balance.chainId === undefined || price.chainId === balance.chainId)
+  );
+
+// Quote token wei for an amount of token wei, rounded down.
+export const valueOf = (price: TokenPrice, amount: bigint) =>
+  price.denominator === 0n
+    ? 0n
+    : (amount * price.numerator) / price.denominator;
+
+// Quote token units per token unit.
+export const unitPrice = (price: TokenPrice, tokenDecimals: number) =>
+  Number(
+    formatUnits(
+      valueOf(price, 10n ** BigInt(tokenDecimals + 18)),
+      price.quoteDecimals + 18
+    )
+  );
+
+// A holder's token balances, LP amounts and LP fees in quote token wei.
+// Unpriced tokens count as zero.
+export const holderValue = (holder: Balance, prices: TokenPrice[]) =>
+  holder.balances.reduce((sum, balance) => {
+    const price = findTokenPrice(prices, balance);
+    return price
+      ? sum +
+          valueOf(price, balance.balance + balance.lpBalance + balance.lpFees)
+      : sum;
+  }, 0n);
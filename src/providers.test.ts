@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import { toHex, type PublicClient } from "viem";
+import { createLogTransferSource } from "./providers";
+import { createRequestScheduler } from "./scheduler";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+
+// Requested blocks, marked when the node refused them.
+type Call = [number, number, "failed"?];
+
+// A node that refuses ranges over maxRange blocks, naming a range that
+// would have worked when suggest is set, and has one transfer per 500 blocks.
+const mockClient = (maxRange: number, suggest = true) => {
+  const calls: Call[] = [];
+  const client = {
+    getLogs: async ({
+      fromBlock,
+      toBlock,
+    }: {
+      fromBlock: bigint;
+      toBlock: bigint;
+    }) => {
+      const from = Number(fromBlock);
+      const to = Number(toBlock);
+      if (to - from + 1 > maxRange) {
+        calls.push([from, to, "failed"]);
+        throw new Error(
+          suggest
+            ? `Log response size exceeded. this block range should work: [${toHex(
+                from
+              )}, ${toHex(from + maxRange - 1)}]`
+            : "query returned more than 10000 results"
+        );
+      }
+      calls.push([from, to]);
+      const logs = [];
+      for (let block = Math.ceil(from / 500) * 500; block <= to; block += 500) {
+        logs.push({
+          address: TOKEN,
+          blockNumber: BigInt(block),
+          transactionHash: toHex(block, { size: 32 }),
+          logIndex: 0,
+          args: {
+            from: "0x0000000000000000000000000000000000000001",
+            to: "0x0000000000000000000000000000000000000002",
+            value: block === 0 ? 0n : BigInt(block),
+          },
+        });
+      }
+      return logs;
+    },
+  } as unknown as PublicClient;
+  return { client, calls };
+};
+
+const scheduler = createRequestScheduler({ computeUnitsPerSecond: 1_000_000 });
+
+describe("createLogTransferSource", () => {
+  test("takes the range the provider suggests, then grows the window", async () => {
+    const { client, calls } = mockClient(1000);
+    const getTransfers = createLogTransferSource({
+      client,
+      scheduler,
+      logBlockRange: 4000,
+    });
+
+    const transfers = await getTransfers({
+      contractAddresses: [TOKEN],
+      fromBlock: 0,
+      toBlock: 3999,
+    });
+
+    expect(calls).toEqual([
+      [0, 3999, "failed"],
+      [0, 999],
+      [1000, 2999, "failed"],
+      [1000, 1999],
+      [2000, 3999, "failed"],
+      [2000, 2999],
+      [3000, 3999],
+    ]);
+    // The zero-value transfer at block 0 is left out.
+    expect(transfers.map((transfer) => transfer.blockNumber)).toEqual([
+      500, 1000, 1500, 2000, 2500, 3000, 3500,
+    ]);
+    expect(transfers[0]).toMatchObject({
+      tokenAddress: TOKEN,
+      value: 500n,
+      logIndex: 0,
+    });
+  });
+
+  test("halves the window when the provider suggests nothing", async () => {
+    const { client, calls } = mockClient(300, false);
+    const getTransfers = createLogTransferSource({
+      client,
+      scheduler,
+      logBlockRange: 1000,
+    });
+
+    await getTransfers({ contractAddresses: [TOKEN], toBlock: 999 });
+
+    expect(calls).toEqual([
+      [0, 999, "failed"],
+      [0, 499, "failed"],
+      [0, 249],
+      [250, 749, "failed"],
+      [250, 499],
+      [500, 999, "failed"],
+      [500, 749],
+      [750, 999],
+    ]);
+  });
+
+  test("never grows the window past maxBlockRange", async () => {
+    const { client, calls } = mockClient(Infinity);
+    const getTransfers = createLogTransferSource({
+      client,
+      scheduler,
+      startBlock: 100,
+      logBlockRange: 100,
+      maxBlockRange: 300,
+    });
+
+    await getTransfers({ contractAddresses: [TOKEN], toBlock: 1099 });
+
+    expect(calls).toEqual([
+      [100, 199],
+      [200, 399],
+      [400, 699],
+      [700, 999],
+      [1000, 1099],
+    ]);
+  });
+
+  test("fails on errors other than oversized ranges", async () => {
+    const client = {
+      getLogs: async () => {
+        throw new Error("execution reverted");
+      },
+    } as unknown as PublicClient;
+    const getTransfers = createLogTransferSource({ client, scheduler });
+
+    await expect(
+      getTransfers({ contractAddresses: [TOKEN], toBlock: 10 })
+    ).rejects.toThrow("execution reverted");
+  });
+});
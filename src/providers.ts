@@ -0,0 +1,245 @@
+import {
+  Alchemy,
+  AssetTransfersCategory,
+  type AssetTransfersResponse,
+  type AssetTransfersResult,
+} from "alchemy-sdk";
+import {
+  createPublicClient,
+  http,
+  parseAbiItem,
+  toHex,
+  type Chain,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { base } from "viem/chains";
+import type {
+  ChainDataProvider,
+  RequestScheduler,
+  Transfer,
+  TransferRequest,
+  TransferSource,
+} from "./types";
+import { DEFAULT_CHAIN_ID, getChainInfo } from "./chains";
+import {
+  createRequestScheduler,
+  isLogRangeError,
+  scheduleProvider,
+  suggestedLogRange,
+} from "./scheduler";
+
+const ERC20_TRANSFER_EVENT = parseAbiItem(
+  "event Transfer(address indexed from, address indexed to, uint256 value)"
+);
+
+const createClient = (url: string, chain: Chain): PublicClient =>
+  createPublicClient({
+    chain,
+    transport: http(url, {
+      fetchOptions: {
+        headers: {
+          "Accept-Encoding": "gzip",
+          "Content-Type": "application/json",
+        },
+      },
+    }),
+  });
+
+// getTransfers schedules its own calls, since it can take several pages.
+// The scheduled provider itself is returned, so scheduleProvider knows it.
+const fromClient = (
+  client: PublicClient,
+  scheduler: RequestScheduler,
+  getTransfers: ChainDataProvider["getTransfers"]
+): ChainDataProvider =>
+  Object.assign(
+    scheduleProvider(
+      {
+        getTransfers,
+        getLogs: client.getLogs,
+        getTransactionReceipt: client.getTransactionReceipt,
+        multicall: client.multicall,
+        getBlock: client.getBlock,
+        getCode: client.getCode,
+      },
+      scheduler
+    ),
+    { getTransfers }
+  );
+
+const toTransfer = (transfer: AssetTransfersResult): Transfer => ({
+  blockNumber: Number(transfer.blockNum),
+  tokenAddress: transfer.rawContract.address!.toLowerCase(),
+  from: transfer.from.toLowerCase(),
+  to: (
+    transfer.to ?? "0x0000000000000000000000000000000000000000"
+  ).toLowerCase(),
+  value: BigInt(transfer.rawContract.value ?? 0),
+  transactionHash: transfer.hash,
+  logIndex: Number(transfer.uniqueId.split(":").pop()),
+});
+
+// With transferSource "logs", transfers are read from Transfer logs over the
+// same Alchemy RPC instead of the transfers API.
+export const createAlchemyProvider = (
+  apiKey: string,
+  chainId: number = DEFAULT_CHAIN_ID,
+  scheduler: RequestScheduler = createRequestScheduler(),
+  transferSource: TransferSource = "alchemy"
+): ChainDataProvider => {
+  const { alchemyNetwork, chain } = getChainInfo(chainId);
+  const alchemy = new Alchemy({
+    apiKey: apiKey,
+    network: alchemyNetwork,
+  });
+  const client = createClient(
+    `https://${alchemyNetwork}.g.alchemy.com/v2/${apiKey}`,
+    chain
+  );
+
+  const getTransfers = async ({
+    contractAddresses,
+    fromBlock,
+    toBlock,
+  }: TransferRequest) => {
+    let allTransfers: AssetTransfersResult[] = [];
+    let pageKey: string | undefined = undefined;
+
+    while (true) {
+      const transfers: AssetTransfersResponse = await scheduler.schedule(
+        "getTransfersPage",
+        () =>
+          alchemy.core.getAssetTransfers({
+            contractAddresses,
+            excludeZeroValue: true,
+            category: [AssetTransfersCategory.ERC20],
+            fromBlock: fromBlock !== undefined ? toHex(fromBlock) : undefined,
+            toBlock: toHex(toBlock),
+            pageKey: pageKey,
+          })
+      );
+
+      if (transfers.transfers.length === 0) break;
+
+      allTransfers = [...allTransfers, ...transfers.transfers];
+
+      const lowestBlockInPage = Math.min(
+        ...transfers.transfers.map((t) => Number(t.blockNum))
+      );
+
+      if (lowestBlockInPage <= toBlock && transfers.pageKey) {
+        pageKey = transfers.pageKey;
+      } else {
+        break;
+      }
+    }
+
+    return allTransfers
+      .filter((transfer) => Number(transfer.blockNum) <= toBlock)
+      .map(toTransfer);
+  };
+
+  return fromClient(
+    client,
+    scheduler,
+    transferSource === "logs"
+      ? createLogTransferSource({ client, scheduler })
+      : getTransfers
+  );
+};
+
+// Reads ERC20 Transfer logs in block windows up to the requested block. A
+// window that returns too many results is split, taking the provider's
+// suggested range when it gives one, and each full window doubles the next
+// one up to maxBlockRange.
+export const createLogTransferSource = (obj: {
+  client: PublicClient;
+  scheduler: RequestScheduler;
+  startBlock?: number;
+  logBlockRange?: number;
+  maxBlockRange?: number;
+}): ChainDataProvider["getTransfers"] => {
+  const maxBlockRange = BigInt(obj.maxBlockRange ?? 100_000);
+  let blockRange = BigInt(obj.logBlockRange ?? 10_000);
+
+  return async ({ contractAddresses, fromBlock, toBlock }: TransferRequest) => {
+    const transfers: Transfer[] = [];
+    const targetBlock = BigInt(toBlock);
+    let currentBlock = BigInt(Math.max(obj.startBlock ?? 0, fromBlock ?? 0));
+
+    while (currentBlock <= targetBlock) {
+      const endBlock =
+        currentBlock + blockRange - 1n > targetBlock
+          ? targetBlock
+          : currentBlock + blockRange - 1n;
+
+      let logs;
+      try {
+        logs = await obj.scheduler.schedule("getLogs", () =>
+          obj.client.getLogs({
+            address: contractAddresses as Hex[],
+            event: ERC20_TRANSFER_EVENT,
+            fromBlock: currentBlock,
+            toBlock: endBlock,
+          })
+        );
+      } catch (error) {
+        if (!isLogRangeError(error) || endBlock === currentBlock) throw error;
+        const suggested = suggestedLogRange(error);
+        blockRange =
+          suggested !== undefined && suggested < endBlock - currentBlock + 1n
+            ? suggested
+            : (endBlock - currentBlock + 1n) / 2n;
+        continue;
+      }
+
+      for (const log of logs) {
+        if (!log.args.value) continue;
+        transfers.push({
+          blockNumber: Number(log.blockNumber),
+          tokenAddress: log.address.toLowerCase(),
+          from: log.args.from!.toLowerCase(),
+          to: log.args.to!.toLowerCase(),
+          value: log.args.value,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+        });
+      }
+
+      if (endBlock - currentBlock + 1n === blockRange) {
+        blockRange =
+          blockRange * 2n > maxBlockRange ? maxBlockRange : blockRange * 2n;
+      }
+      currentBlock = endBlock + 1n;
+    }
+
+    return transfers;
+  };
+};
+
+// A plain JSON-RPC endpoint has no transfer index, so transfers are rebuilt
+// from ERC20 Transfer logs.
+export const createJsonRpcProvider = (obj: {
+  rpcUrl: string;
+  chain?: Chain;
+  startBlock?: number;
+  logBlockRange?: number;
+  maxBlockRange?: number;
+  scheduler?: RequestScheduler;
+}): ChainDataProvider => {
+  const client = createClient(obj.rpcUrl, obj.chain ?? base);
+  const scheduler = obj.scheduler ?? createRequestScheduler();
+
+  return fromClient(
+    client,
+    scheduler,
+    createLogTransferSource({
+      client,
+      scheduler,
+      startBlock: obj.startBlock,
+      logBlockRange: obj.logBlockRange,
+      maxBlockRange: obj.maxBlockRange,
+    })
+  );
+};
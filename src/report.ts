@@ -0,0 +1,97 @@
+import type { IndexerContext, RunReport } from "./types";
+import { getChainId } from "./chains";
+import { IncompleteDataError } from "./errors";
+
+export const createRunReport = (): RunReport => ({
+  skippedTransactions: [],
+  failedTokenIds: [],
+  unscannedRanges: [],
+  missingSlot0: [],
+});
+
+export const isReportComplete = (report: RunReport) =>
+  report.skippedTransactions.length === 0 &&
+  report.failedTokenIds.length === 0 &&
+  report.unscannedRanges.length === 0 &&
+  report.missingSlot0.length === 0;
+
+// Failures are logged and, when the context carries a report,
+// recorded there so callers can tell a complete result from a partial one.
+export const reportSkippedTransaction = (
+  ctx: IndexerContext,
+  transactionHash: string,
+  error: unknown
+) => {
+  console.error(`Error processing transaction ${transactionHash}:`, error);
+  ctx.report?.skippedTransactions.push({
+    chainId: getChainId(ctx),
+    transactionHash,
+    reason: String(error),
+  });
+};
+
+export const reportFailedTokenId = (
+  ctx: IndexerContext,
+  positionManager: string,
+  tokenId: bigint,
+  reason: string
+) => {
+  console.error(
+    `Position ${tokenId} of ${positionManager} could not be read: ${reason}`
+  );
+  ctx.report?.failedTokenIds.push({
+    chainId: getChainId(ctx),
+    positionManager: positionManager.toLowerCase(),
+    tokenId,
+    reason,
+  });
+};
+
+export const reportUnscannedRange = (
+  ctx: IndexerContext,
+  address: string,
+  fromBlock: number,
+  toBlock: number,
+  error: unknown
+) => {
+  console.error(
+    `Blocks ${fromBlock}-${toBlock} of ${address} were not scanned:`,
+    error
+  );
+  ctx.report?.unscannedRanges.push({
+    chainId: getChainId(ctx),
+    address: address.toLowerCase(),
+    fromBlock,
+    toBlock,
+    reason: String(error),
+  });
+};
+
+export const reportMissingSlot0 = (ctx: IndexerContext, pool: string) => {
+  console.error(`The price of pool ${pool} could not be read`);
+  ctx.report?.missingSlot0.push({
+    chainId: getChainId(ctx),
+    pool: pool.toLowerCase(),
+  });
+};
+
+// Adds what source could not read to target, e.g. when a result is built
+// from an earlier one.
+export const mergeRunReport = (target: RunReport, source: RunReport) => {
+  target.skippedTransactions.push(...source.skippedTransactions);
+  target.failedTokenIds.push(...source.failedTokenIds);
+  target.unscannedRanges.push(...source.unscannedRanges);
+  target.missingSlot0.push(...source.missingSlot0);
+};
+
+// Attaches the report to a result, or refuses an incomplete one when strict.
+export const withReport = <T extends object>(
+  result: T,
+  report: RunReport,
+  strict?: boolean
+): T & { report: RunReport } => {
+  if (strict && !isReportComplete(report)) {
+    throw new IncompleteDataError(report);
+  }
+  return Object.assign(result, { report });
+};
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import type { ChainDataProvider } from "./types";
+import {
+  createRequestScheduler,
+  isLogRangeError,
+  isRetryableError,
+  scheduleProvider,
+  suggestedLogRange,
+} from "./scheduler";
+import { ProviderError } from "./errors";
+
+describe("errors", () => {
+  test("reads the provider's message from details and causes", () => {
+    const error = new Error("HTTP request failed", {
+      cause: Object.assign(new Error("RPC Request failed"), {
+        details: "this block range should work: [0x1, 0x7d0]",
+      }),
+    });
+
+    expect(isLogRangeError(error)).toBe(true);
+    expect(isRetryableError(error)).toBe(false);
+    expect(suggestedLogRange(error)).toBe(2000n);
+  });
+
+  test("reads JSON-RPC error bodies", () => {
+    expect(isRetryableError({ error: { code: -32005, message: "" } })).toBe(
+      true
+    );
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError(new Error("execution reverted"))).toBe(false);
+  });
+
+  test("ignores values that are not errors", () => {
+    expect(isRetryableError(undefined)).toBe(false);
+    expect(isLogRangeError("block range too large")).toBe(false);
+    expect(suggestedLogRange({ message: 42 })).toBeUndefined();
+  });
+});
+
+describe("scheduleProvider", () => {
+  const scheduler = createRequestScheduler({
+    computeUnitsPerSecond: 1_000_000,
+    baseRetryDelay: 1,
+    maxRetries: 1,
+  });
+
+  test("forwards arguments and results", async () => {
+    const provider = {
+      getCode: async ({ address }: { address: string }) =>
+        address === "0x01" ? "0x6080" : undefined,
+    } as unknown as ChainDataProvider;
+
+    const scheduled = scheduleProvider(provider, scheduler);
+    expect(await scheduled.getCode({ address: "0x01" })).toBe("0x6080");
+  });
+
+  test("retries rate limits and then gives up", async () => {
+    let calls = 0;
+    const provider = {
+      getBlock: async () => {
+        calls++;
+        throw Object.assign(new Error("Too Many Requests"), { status: 429 });
+      },
+    } as unknown as ChainDataProvider;
+
+    const scheduled = scheduleProvider(provider, scheduler);
+    await expect(scheduled.getBlock()).rejects.toBeInstanceOf(ProviderError);
+    expect(calls).toBe(2);
+  });
+
+  test("schedules a provider only once per scheduler", async () => {
+    const single = createRequestScheduler({
+      computeUnitsPerSecond: 1_000_000,
+      concurrency: 1,
+    });
+    const provider = {
+      getBlock: async () => ({ number: 100n }),
+    } as unknown as ChainDataProvider;
+
+    const scheduled = scheduleProvider(provider, single);
+    const twice = scheduleProvider(scheduled, single);
+    expect(twice).toBe(scheduled);
+    expect((await twice.getBlock()).number).toBe(100n);
+    expect(scheduleProvider(scheduled, scheduler)).not.toBe(scheduled);
+  });
+});
@@ -0,0 +1,203 @@
+import type {
+  ChainDataProvider,
+  ProviderMethod,
+  RequestScheduler,
+  RequestSchedulerConfig,
+} from "./types";
+import { ProviderError } from "./errors";
+import { delay } from "./utils";
+
+// Alchemy's compute units per call. A multicall is charged as one eth_call.
+const COMPUTE_UNITS: Record<ProviderMethod | "getTransfersPage", number> = {
+  getTransfers: 150,
+  getTransfersPage: 150,
+  getLogs: 75,
+  getTransactionReceipt: 15,
+  multicall: 26,
+  getBlock: 16,
+  getCode: 26,
+};
+
+// The fields retry decisions look at, on an error or any of its causes.
+type ErrorLike = {
+  message?: unknown;
+  details?: unknown;
+  status?: unknown;
+  code?: unknown;
+  name?: unknown;
+};
+
+const errorChain = (error: unknown) => {
+  const chain: ErrorLike[] = [];
+  let current = error;
+  while (current && typeof current === "object" && chain.length < 8) {
+    chain.push(current);
+    current =
+      ("cause" in current ? current.cause : undefined) ??
+      ("error" in current ? current.error : undefined);
+  }
+  return chain;
+};
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+// viem keeps the provider's own message in details.
+const errorText = (e: ErrorLike) =>
+  `${e instanceof Error ? e.message : text(e.message)} ${text(e.details)}`;
+
+const LOG_RANGE_ERROR =
+  /response size exceeded|more than \d+ results|too many results|block range|range is too (large|wide)|range too large|exceeds? (the )?max(imum)? block range/i;
+
+// eth_getLogs requests that ask for too many blocks or results. Providers
+// word these differently, and some reuse the rate limit code -32005 for them.
+export const isLogRangeError = (error: unknown) =>
+  errorChain(error).some((e) => LOG_RANGE_ERROR.test(errorText(e)));
+
+// Alchemy and some others name a range that would have worked, e.g.
+// "this block range should work: [0x1, 0x7d0]".
+export const suggestedLogRange = (error: unknown) => {
+  for (const e of errorChain(error)) {
+    const match = errorText(e).match(/\[(0x[0-9a-f]+),\s*(0x[0-9a-f]+)\]/i);
+    if (match) return BigInt(match[2]) - BigInt(match[1]) + 1n;
+  }
+  return undefined;
+};
+
+// Rate limits, server errors and timeouts are worth retrying; reverts,
+// invalid requests and oversized log ranges are not.
+export const isRetryableError = (error: unknown) =>
+  !isLogRangeError(error) &&
+  errorChain(error).some(
+    (e) =>
+      e.status === 429 ||
+      (typeof e.status === "number" && e.status >= 500) ||
+      e.code === 429 ||
+      e.code === -32005 ||
+      e.name === "TimeoutError" ||
+      /\b429\b|rate limit|too many requests|timed out|timeout/i.test(
+        text(e.message)
+      )
+  );
+
+// Every call takes a concurrency slot, then waits until the token bucket
+// holds its compute units. Waiters are served in the order they arrived.
+export const createRequestScheduler = (
+  config: RequestSchedulerConfig = {}
+): RequestScheduler => {
+  const rate = config.computeUnitsPerSecond ?? 330;
+  const capacity = config.burst ?? rate;
+  const concurrency = config.concurrency ?? 4;
+  const maxRetries = config.maxRetries ?? 5;
+  const baseRetryDelay = config.baseRetryDelay ?? 250;
+  const maxRetryDelay = config.maxRetryDelay ?? 10_000;
+  const computeUnits = { ...COMPUTE_UNITS, ...config.computeUnits };
+
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let bucket = Promise.resolve();
+
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * rate);
+    refilledAt = now;
+  };
+
+  const takeTokens = (cost: number) => {
+    const taken = bucket.then(async () => {
+      const needed = Math.min(cost, capacity);
+      refill();
+      while (tokens < needed) {
+        await delay(Math.ceil(((needed - tokens) / rate) * 1000));
+        refill();
+      }
+      tokens -= needed;
+    });
+    bucket = taken;
+    return taken;
+  };
+
+  const acquireSlot = async () => {
+    if (active < concurrency) {
+      active++;
+      return;
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  // The slot passes straight to the next waiter, so active stays the same.
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  const backoff = (attempt: number) =>
+    Math.random() * Math.min(maxRetryDelay, baseRetryDelay * 2 ** attempt);
+
+  const schedule = async <T>(
+    method: ProviderMethod | "getTransfersPage",
+    call: () => Promise<T>
+  ): Promise<T> => {
+    await acquireSlot();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await takeTokens(computeUnits[method]);
+        try {
+          return await call();
+        } catch (error) {
+          if (!isRetryableError(error)) throw error;
+          if (attempt === maxRetries) {
+            throw new ProviderError(
+              `${method} failed after ${maxRetries + 1} attempts: ${error}`,
+              { cause: error }
+            );
+          }
+          await delay(backoff(attempt));
+        }
+      }
+    } finally {
+      releaseSlot();
+    }
+  };
+
+  return { schedule };
+};
+
+// The scheduler each scheduled provider routes its calls through.
+const schedulers = new WeakMap<ChainDataProvider, RequestScheduler>();
+
+// Routes every call of a provider through a scheduler, for providers that do
+// not take one themselves. A provider already routed through the same
+// scheduler is returned as it is: wrapped twice, every call would hold two
+// of its slots and could wait forever for the second.
+export const scheduleProvider = (
+  provider: ChainDataProvider,
+  scheduler: RequestScheduler
+): ChainDataProvider => {
+  if (schedulers.get(provider) === scheduler) return provider;
+
+  // viem's methods are generic over their arguments, so each wrapper takes
+  // the widest arguments and is cast back to the method's own signature.
+  const scheduled = <K extends ProviderMethod>(method: K) => {
+    const call = provider[method] as unknown as (
+      ...args: Parameters<ChainDataProvider[K]>
+    ) => Promise<Awaited<ReturnType<ChainDataProvider[K]>>>;
+    const wrapper = (...args: Parameters<ChainDataProvider[K]>) =>
+      scheduler.schedule(method, () => call.apply(provider, args));
+    return wrapper as unknown as ChainDataProvider[K];
+  };
+
+  const scheduledProvider = {
+    getTransfers: scheduled("getTransfers"),
+    getLogs: scheduled("getLogs"),
+    getTransactionReceipt: scheduled("getTransactionReceipt"),
+    multicall: scheduled("multicall"),
+    getBlock: scheduled("getBlock"),
+    getCode: scheduled("getCode"),
+  };
+  schedulers.set(scheduledProvider, scheduler);
+  return scheduledProvider;
+};
@@ -0,0 +1,216 @@
+import { describe, expect, test } from "bun:test";
+import type { AddressInfo } from "net";
+import type { Balance, DrawOptions } from "./types";
+import { createIndexerServer } from "./server";
+import { createRunReport } from "./report";
+
+const TOKEN = { address: "0x00000000000000000000000000000000000000aa" };
+const HOLDER = "0x0000000000000000000000000000000000000001";
+const SEED = `0x${"ab".repeat(32)}`;
+
+type StubDrawOptions = DrawOptions & { snapshot?: Balance[] };
+
+const holders = (): Balance[] => [
+  {
+    holderAddress: HOLDER,
+    balances: [
+      {
+        tokenAddress: TOKEN.address,
+        balance: 5n * 10n ** 18n,
+        lpBalance: 0n,
+        lpFees: 0n,
+        decimals: 18,
+      },
+    ],
+  },
+];
+
+// An indexer at head 100 whose snapshots finish only once released, so
+// running jobs can be observed.
+const stubIndexer = () => {
+  let release = () => {};
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const calls = { snapshots: 0, draws: [] as StubDrawOptions[] };
+  const indexer = {
+    tokens: [TOKEN],
+    homeChainId: 8453,
+    providers: new Map([[8453, { getBlock: async () => ({ number: 100n }) }]]),
+    context: () => ({ tokens: [TOKEN] }),
+    getBalanceSnapshot: async () => {
+      calls.snapshots++;
+      await released;
+      return Object.assign(holders(), {
+        excluded: [],
+        report: createRunReport(),
+      });
+    },
+    getLPBalances: async () =>
+      Object.assign([], { excluded: [], report: createRunReport() }),
+    getRandomWinners: async (
+      _block: number,
+      _lpWeight: number,
+      _winners: number,
+      _csvExportFilename: undefined,
+      options: StubDrawOptions
+    ) => {
+      calls.draws.push(options);
+      return Object.assign(
+        [{ address: HOLDER, weight: 5, balances: holders() }],
+        {
+          excluded: [],
+          weighting: { name: "linear" },
+          report: createRunReport(),
+        }
+      );
+    },
+  };
+  return { indexer, calls, release };
+};
+
+const withServer = async (
+  indexer: ReturnType<typeof stubIndexer>["indexer"],
+  run: (
+    request: (route: string, init?: RequestInit) => Promise<Response>
+  ) => Promise<void>
+) => {
+  const server = createIndexerServer(
+    indexer as unknown as Parameters<typeof createIndexerServer>[0]
+  );
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await run((route, init) => fetch(`http://127.0.0.1:${port}${route}`, init));
+  } finally {
+    server.close();
+  }
+};
+
+const postDraw = (body: object) => ({
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+describe("createIndexerServer", () => {
+  test("answers 202 while a snapshot runs, then 200 from the cache", async () => {
+    const { indexer, calls, release } = stubIndexer();
+    await withServer(indexer, async (request) => {
+      const running = await request("/snapshot?block=10");
+      const { jobId } = await running.json();
+      expect(running.status).toBe(202);
+      expect(running.headers.get("Location")).toBe(`/jobs/${jobId}`);
+      expect(await (await request(`/jobs/${jobId}`)).json()).toMatchObject({
+        jobId,
+        status: "running",
+      });
+
+      release();
+      const job = await request(`/jobs/${jobId}`);
+      expect(job.status).toBe(200);
+      expect((await job.json()).holders).toEqual([
+        {
+          holderAddress: HOLDER,
+          balances: [
+            {
+              tokenAddress: TOKEN.address,
+              balance: "5000000000000000000",
+              lpBalance: "0",
+              lpFees: "0",
+              decimals: 18,
+            },
+          ],
+        },
+      ]);
+
+      const cached = await request("/snapshot?block=10");
+      expect(cached.status).toBe(200);
+      expect((await cached.json()).jobId).toBe(jobId);
+      expect(calls.snapshots).toBe(1);
+    });
+  });
+
+  test("renders CSV on request", async () => {
+    const { indexer, release } = stubIndexer();
+    release();
+    await withServer(indexer, async (request) => {
+      await request("/snapshot?block=10");
+      const csv = await request("/snapshot?block=10&format=csv");
+
+      expect(csv.headers.get("Content-Type")).toBe("text/csv");
+      expect((await csv.text()).split("\n")).toEqual([
+        `Holder Address,${TOKEN.address} Token Balance,${TOKEN.address} LP Balance,${TOKEN.address} LP Fees`,
+        `${HOLDER},5,0,0`,
+      ]);
+    });
+  });
+
+  test("serves holders and seeded draws from the cached snapshot", async () => {
+    const { indexer, calls, release } = stubIndexer();
+    release();
+    await withServer(indexer, async (request) => {
+      await request("/snapshot?block=10");
+      const holder = await request(`/holders/${HOLDER}?block=10`);
+      expect((await holder.json()).holder.holderAddress).toBe(HOLDER);
+      expect((await request(`/holders/${TOKEN.address}?block=10`)).status).toBe(
+        404
+      );
+
+      const draw = {
+        block: 10,
+        lpWeight: 1,
+        winners: 1,
+        seed: { value: SEED },
+      };
+      const first = await (await request("/draws", postDraw(draw))).json();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const second = await request("/draws", postDraw(draw));
+
+      expect(second.status).toBe(200);
+      expect((await second.json()).jobId).toBe(first.jobId);
+      expect(calls.snapshots).toBe(1);
+      expect(calls.draws).toHaveLength(1);
+      expect(calls.draws[0].snapshot).toHaveLength(1);
+    });
+  });
+
+  test("refuses invalid requests with 400", async () => {
+    const { indexer, calls } = stubIndexer();
+    await withServer(indexer, async (request) => {
+      const errors = await Promise.all(
+        [
+          request("/snapshot"),
+          request("/snapshot?block=ten"),
+          request("/snapshot?block=101"),
+          request(`/holders/${HOLDER}?block=101`),
+          request("/lp-balances?block=10&chain=10"),
+          request("/draws", { method: "POST", body: "{" }),
+          request("/draws", postDraw({ block: 10, winners: 1 })),
+          request("/draws", postDraw({ block: 101, lpWeight: 1, winners: 1 })),
+          request(
+            "/draws",
+            postDraw({
+              block: 10,
+              lpWeight: 1,
+              winners: 2,
+              tiers: [{ name: "Grand", winners: 1 }],
+            })
+          ),
+        ].map(async (response) => (await response).status)
+      );
+
+      expect(errors).toEqual(Array(9).fill(400));
+      expect(calls.snapshots).toBe(0);
+      expect(await (await request("/snapshot?block=101")).json()).toEqual({
+        error: "Block 101 is past the chain head 100",
+      });
+    });
+  });
+
+  test("answers 404 for unknown routes and jobs", async () => {
+    const { indexer } = stubIndexer();
+    await withServer(indexer, async (request) => {
+      expect((await request("/nothing")).status).toBe(404);
+      expect((await request("/jobs/0123-abcd")).status).toBe(404);
+    });
+  });
+});
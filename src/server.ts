@@ -0,0 +1,406 @@
+import * as http from "http";
+import { randomUUID } from "crypto";
+import type {
+  ClusterConfig,
+  DrawOptions,
+  LPWeight,
+  WeightingConfig,
+} from "./types";
+import type { DaosWorldIndexer } from "./index";
+import {
+  drawIncludesLPs,
+  lpBalancesToCSV,
+  snapshotToCSV,
+  winnersToCSV,
+} from "./api";
+import { createWeighting } from "./weighting";
+import { validateClusterConfig } from "./clusters";
+import { countTierWinners, validateTierWinners, validateTiers } from "./draw";
+import { ConfigurationError } from "./errors";
+
+type Indexer = InstanceType<typeof DaosWorldIndexer>;
+
+type JobResults = {
+  snapshot: Awaited<ReturnType<Indexer["getBalanceSnapshot"]>>;
+  "lp-balances": Awaited<ReturnType<Indexer["getLPBalances"]>>;
+  draw: Awaited<ReturnType<Indexer["getRandomWinners"]>>;
+};
+
+type JobKind = keyof JobResults;
+
+type JobOf<K extends JobKind> = {
+  id: string;
+  kind: K;
+  chainId?: number;
+  status: "running" | "done" | "failed";
+  createdAt: string;
+  result?: JobResults[K];
+  error?: string;
+  // Settles with the job, for jobs built on other jobs.
+  done: Promise<JobResults[K]>;
+};
+
+type Job = { [K in JobKind]: JobOf<K> }[JobKind];
+
+export type DrawRequest = {
+  block: number;
+  lpWeight: LPWeight;
+  // Defaults to the winners of all tiers.
+  winners?: number;
+  seed?: DrawOptions["seed"];
+  timeWeighted?: DrawOptions["timeWeighted"];
+  weighting?: WeightingConfig;
+  tokenMultipliers?: DrawOptions["tokenMultipliers"];
+  tiers?: DrawOptions["tiers"];
+  // Past draws, e.g. a draw history file, for recentWinners.
+  history?: DrawOptions["history"];
+  recentWinners?: DrawOptions["recentWinners"];
+  // Treats each cluster of linked wallets as one entrant.
+  clustering?: ClusterConfig;
+};
+
+class HttpError extends Error {
+  constructor(readonly statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+// Bigints are sent as decimal strings.
+const toJSON = (value: unknown) =>
+  JSON.stringify(value, (_key, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+
+const send = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+  contentType = "application/json"
+) => {
+  res.writeHead(statusCode, { "Content-Type": contentType });
+  res.end(contentType === "application/json" ? toJSON(body) : body);
+};
+
+const parseBlock = (url: URL) => {
+  const block = url.searchParams.get("block");
+  if (!block || !/^\d+$/.test(block)) {
+    throw new HttpError(400, "block must be a block number");
+  }
+  return Number(block);
+};
+
+const wantsCSV = (url: URL, req: http.IncomingMessage) =>
+  url.searchParams.get("format") === "csv" ||
+  (req.headers.accept ?? "").includes("text/csv");
+
+const readBody = async (req: http.IncomingMessage) => {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+};
+
+// Serves snapshots and draws from one indexer. Each result is computed once
+// as a job: until it is done, requests get 202 with the job id, to be polled
+// at /jobs/:id. Finished snapshots are kept for the cacheSize most recently
+// requested blocks, and uncached jobs for jobTTL milliseconds.
+export const createIndexerServer = (
+  indexer: Indexer,
+  options: { cacheSize?: number; jobTTL?: number } = {}
+) => {
+  const cacheSize = options.cacheSize ?? 32;
+  const jobTTL = options.jobTTL ?? 60 * 60 * 1000;
+  const jobs = new Map<string, Job>();
+  const cache = new Map<string, Job>();
+
+  const pruneJobs = () => {
+    const cachedIds = new Set(Array.from(cache.values(), (job) => job.id));
+    for (const [id, job] of jobs) {
+      if (
+        job.status !== "running" &&
+        !cachedIds.has(id) &&
+        Date.now() - Date.parse(job.createdAt) > jobTTL
+      ) {
+        jobs.delete(id);
+      }
+    }
+  };
+
+  const startJob = <K extends JobKind>(
+    kind: K,
+    run: () => Promise<JobResults[K]>,
+    chainId?: number
+  ) => {
+    pruneJobs();
+    const done = run();
+    const job: JobOf<K> = {
+      id: randomUUID(),
+      kind,
+      chainId,
+      status: "running",
+      createdAt: new Date().toISOString(),
+      done,
+    };
+    jobs.set(job.id, job as Job);
+
+    done.then(
+      (result) => {
+        job.status = "done";
+        job.result = result;
+      },
+      (error) => {
+        job.status = "failed";
+        job.error = error instanceof Error ? error.message : String(error);
+      }
+    );
+
+    return job;
+  };
+
+  // Failed jobs are retried on the next request. Keys start with the kind of
+  // their job.
+  const cached = <K extends JobKind>(
+    key: string,
+    kind: K,
+    run: () => Promise<JobResults[K]>,
+    chainId?: number
+  ) => {
+    let job = cache.get(key) as JobOf<K> | undefined;
+    if (!job || job.status === "failed") {
+      job = startJob(kind, run, chainId);
+    }
+    cache.delete(key);
+    cache.set(key, job as Job);
+    while (cache.size > cacheSize) {
+      cache.delete(cache.keys().next().value!);
+    }
+    return job;
+  };
+
+  // Winners and holders are arrays with extra fields, which JSON drops.
+  // Only finished jobs are rendered.
+  const render = (job: Job) => {
+    switch (job.kind) {
+      case "draw": {
+        const result = job.result!;
+        return {
+          winners: Array.from(result),
+          proof: result.proof,
+          weighting: result.weighting,
+          excluded: result.excluded,
+          report: result.report,
+        };
+      }
+      case "snapshot": {
+        const result = job.result!;
+        return {
+          holders: Array.from(result),
+          prices: result.prices,
+          excluded: result.excluded,
+          report: result.report,
+        };
+      }
+      case "lp-balances": {
+        const result = job.result!;
+        return {
+          holders: Array.from(result),
+          excluded: result.excluded,
+          report: result.report,
+        };
+      }
+    }
+  };
+
+  const renderCSV = (job: Job) => {
+    switch (job.kind) {
+      case "draw":
+        return winnersToCSV(job.result!, indexer.tokens);
+      case "snapshot":
+        return snapshotToCSV(job.result!, indexer.tokens);
+      case "lp-balances":
+        return lpBalancesToCSV(
+          job.result!,
+          indexer.context(job.chainId).tokens
+        );
+    }
+  };
+
+  const sendJob = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+    job: Job
+  ) => {
+    if (job.status === "running") {
+      res.setHeader("Location", `/jobs/${job.id}`);
+      return send(res, 202, { jobId: job.id, status: job.status });
+    }
+    if (job.status === "failed") {
+      return send(res, 500, { jobId: job.id, error: job.error });
+    }
+    return wantsCSV(url, req)
+      ? send(res, 200, renderCSV(job), "text/csv")
+      : send(res, 200, { jobId: job.id, ...render(job) });
+  };
+
+  // Blocks past the chain head would be computed at the head and then cached
+  // as if final, so they are refused. Heads only move forward, so a chain's
+  // head is fetched again only for blocks past the last one seen.
+  const heads = new Map<number, number>();
+  const checkBlock = async (
+    block: number,
+    chainId: number = indexer.homeChainId
+  ) => {
+    if (block > (heads.get(chainId) ?? -1)) {
+      const latest = await indexer.providers.get(chainId)!.getBlock();
+      heads.set(chainId, Number(latest.number));
+    }
+    if (block > heads.get(chainId)!) {
+      throw new HttpError(
+        400,
+        `Block ${block} is past the chain head ${heads.get(chainId)}`
+      );
+    }
+  };
+
+  const snapshot = (block: number, includeLPs: boolean) =>
+    cached(`snapshot:${block}:${includeLPs}`, "snapshot", () =>
+      indexer.getBalanceSnapshot(block, includeLPs)
+    );
+
+  const handle = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = url.pathname.replace(/\/+$/, "") || "/";
+
+    if (req.method === "GET" && route === "/snapshot") {
+      const block = parseBlock(url);
+      const includeLPs = url.searchParams.get("lps") !== "false";
+      await checkBlock(block);
+      return sendJob(req, res, url, snapshot(block, includeLPs));
+    }
+
+    if (req.method === "GET" && route === "/lp-balances") {
+      const block = parseBlock(url);
+      const chainId = url.searchParams.has("chain")
+        ? Number(url.searchParams.get("chain"))
+        : undefined;
+      if (chainId !== undefined && !indexer.providers.has(chainId)) {
+        throw new HttpError(400, `No tokens configured on chain ${chainId}`);
+      }
+      await checkBlock(block, chainId);
+      const job = cached(
+        `lp-balances:${chainId}:${block}`,
+        "lp-balances",
+        () => indexer.getLPBalances(block, undefined, chainId),
+        chainId
+      );
+      return sendJob(req, res, url, job);
+    }
+
+    const holderMatch = route.match(/^\/holders\/(0x[0-9a-fA-F]{40})$/);
+    if (req.method === "GET" && holderMatch) {
+      const block = parseBlock(url);
+      const address = holderMatch[1].toLowerCase();
+      await checkBlock(block);
+      const job = snapshot(block, true);
+      if (job.status !== "done") return sendJob(req, res, url, job);
+
+      const holder = job.result!.find(
+        (h) => h.holderAddress.toLowerCase() === address
+      );
+      if (!holder) {
+        throw new HttpError(404, `${address} holds nothing at block ${block}`);
+      }
+      return send(res, 200, { block, holder });
+    }
+
+    if (req.method === "POST" && route === "/draws") {
+      const body: DrawRequest = await readBody(req);
+      let weighting;
+      let winners;
+      try {
+        weighting = body.weighting && createWeighting(body.weighting);
+        if (body.tiers) validateTiers(body.tiers);
+        if (body.clustering) validateClusterConfig(body.clustering);
+        winners = body.winners ?? (body.tiers && countTierWinners(body.tiers));
+        if (body.tiers && winners !== undefined) {
+          validateTierWinners(body.tiers, winners);
+        }
+      } catch (error) {
+        if (error instanceof ConfigurationError) {
+          throw new HttpError(400, error.message);
+        }
+        throw error;
+      }
+      if (!Number.isInteger(body.block) || !Number.isInteger(winners)) {
+        throw new HttpError(400, "block and winners must be integers");
+      }
+      if (body.lpWeight === undefined) {
+        throw new HttpError(400, "lpWeight is required");
+      }
+      await checkBlock(body.block);
+
+      // Draws at a block share its cached snapshot, unless they weigh
+      // balances over time.
+      const run = async () =>
+        indexer.getRandomWinners(
+          body.block,
+          body.lpWeight,
+          winners!,
+          undefined,
+          {
+            snapshot: body.timeWeighted
+              ? undefined
+              : await snapshot(body.block, drawIncludesLPs(body.lpWeight)).done,
+            seed: body.seed,
+            timeWeighted: body.timeWeighted,
+            weighting,
+            tokenMultipliers: body.tokenMultipliers,
+            tiers: body.tiers,
+            history: body.history,
+            recentWinners: body.recentWinners,
+            clustering: body.clustering,
+          }
+        );
+      // Only seeded draws are reproducible, so only they are cached.
+      const job = body.seed
+        ? cached(`draw:${toJSON(body)}`, "draw", run)
+        : startJob("draw", run);
+      return sendJob(req, res, url, job);
+    }
+
+    const jobMatch = route.match(/^\/jobs\/([0-9a-f-]+)$/);
+    if (req.method === "GET" && jobMatch) {
+      const job = jobs.get(jobMatch[1]);
+      if (!job) throw new HttpError(404, `Unknown job ${jobMatch[1]}`);
+      if (job.status !== "done") {
+        return send(res, 200, {
+          jobId: job.id,
+          status: job.status,
+          createdAt: job.createdAt,
+          error: job.error,
+        });
+      }
+      return sendJob(req, res, url, job);
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${route}`);
+  };
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        send(res, error.statusCode, { error: error.message });
+      } else {
+        console.error(error);
+        send(res, 500, { error: String(error) });
+      }
+    });
+  });
+};
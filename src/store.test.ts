@@ -0,0 +1,267 @@
+import { describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Hex } from "viem";
+import type { IndexStore, IndexerContext } from "./types";
+import {
+  createFileIndexStore,
+  createMemoryIndexStore,
+  createScopedIndexStore,
+  lockStreams,
+} from "./store";
+import { getAllLPHolders } from "./api";
+import { syncV4Mints, type V4Pool } from "./liquidity";
+import {
+  lpMintsStream,
+  lpPositionsStream,
+  syncPositionTransfers,
+} from "./positions";
+import { createEventCustodian } from "./custodians";
+
+// Reads the head, waits on a provider, then appends, like every stream sync.
+const sync = (store: IndexStore, stream: string, blockNumber: number) =>
+  lockStreams(store, [stream], async () => {
+    const head = store.head(stream);
+    if (head !== undefined && head >= blockNumber) return false;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    store.append(stream, blockNumber, [{ value: 100n }]);
+    return true;
+  });
+
+describe("store", () => {
+  test("overlapping syncs of one stream store its blocks once", async () => {
+    const store = createMemoryIndexStore();
+    const fetched = await Promise.all([
+      sync(store, "transfers-0xaa", 10),
+      sync(store, "transfers-0xaa", 10),
+    ]);
+
+    expect(fetched).toEqual([true, false]);
+    expect(store.read("transfers-0xaa")).toEqual([{ value: 100n }]);
+  });
+
+  test("scoped stores share the lock of their store", async () => {
+    const store = createMemoryIndexStore();
+    await Promise.all([
+      sync(createScopedIndexStore(store, "chain-10-"), "transfers-0xaa", 10),
+      sync(createScopedIndexStore(store, "chain-10-"), "transfers-0xaa", 10),
+    ]);
+
+    expect(store.read("chain-10-transfers-0xaa")).toHaveLength(1);
+  });
+
+  test("stores without a lock of their own are locked in memory", async () => {
+    const inner = createMemoryIndexStore();
+    const store: IndexStore = {
+      head: inner.head,
+      read: inner.read,
+      append: inner.append,
+    };
+    await Promise.all([
+      sync(store, "transfers-0xaa", 10),
+      sync(store, "transfers-0xaa", 10),
+    ]);
+
+    expect(store.read("transfers-0xaa")).toHaveLength(1);
+  });
+
+  test("a failed sync releases its streams", async () => {
+    const store = createMemoryIndexStore();
+    const failed = lockStreams(store, ["transfers-0xaa"], async () => {
+      throw new Error("getTransfers failed");
+    });
+
+    await expect(failed).rejects.toThrow("getTransfers failed");
+    expect(await sync(store, "transfers-0xaa", 10)).toBe(true);
+  });
+
+  test("skips batches at or below the head", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "store-test-"));
+    try {
+      const store = createFileIndexStore(directory);
+      store.append("transfers-0xaa", 10, [{ value: 100n }]);
+      store.append("transfers-0xaa", 10, [{ value: 100n }]);
+      store.append("transfers-0xaa", 12, [{ value: 200n }]);
+
+      const reloaded = createFileIndexStore(directory);
+      expect(reloaded.head("transfers-0xaa")).toBe(12);
+      expect(reloaded.read("transfers-0xaa")).toEqual([
+        { value: 100n },
+        { value: 200n },
+      ]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+const POOL = "0x00000000000000000000000000000000000000aa";
+const POSITION_MANAGER = "0x00000000000000000000000000000000000000cc";
+const HOLDER = "0x0000000000000000000000000000000000000001";
+const TRANSFER_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+const word = (value: string | bigint) =>
+  `0x${(typeof value === "bigint" ? value.toString(16) : value.slice(2))
+    .toLowerCase()
+    .padStart(64, "0")}` as Hex;
+
+type MockLog = {
+  blockNumber: bigint;
+  logIndex?: number;
+  transactionHash?: Hex;
+  topics?: Hex[];
+  eventName?: string;
+  args?: Record<string, unknown>;
+};
+
+// A chain whose logs only exist once the tip reaches their block, like
+// events mined after a request for a future block.
+const mockChain = (
+  logs: Record<string, MockLog[]>,
+  receipts: Record<string, { logs: { address: string; topics: Hex[] }[] }> = {}
+) => {
+  const chain = { tip: 100 };
+  const ctx = {
+    provider: {
+      getBlock: async () => ({ number: BigInt(chain.tip) }),
+      getLogs: async (request: {
+        address: string;
+        fromBlock: bigint;
+        toBlock: bigint;
+      }) =>
+        (logs[request.address.toLowerCase()] ?? []).filter(
+          (log) =>
+            log.blockNumber <= BigInt(chain.tip) &&
+            log.blockNumber >= request.fromBlock &&
+            log.blockNumber <= request.toBlock
+        ),
+      getTransactionReceipt: async ({ hash }: { hash: string }) =>
+        receipts[hash],
+    },
+    store: createMemoryIndexStore(),
+    tokens: [],
+    positionManager: POSITION_MANAGER,
+  } as unknown as IndexerContext;
+  return { chain, ctx };
+};
+
+describe("stream syncs past the chain tip", () => {
+  test("LP mints mined after the request are fetched later", async () => {
+    const { chain, ctx } = mockChain(
+      {
+        [POOL]: [{ blockNumber: 150n, transactionHash: "0x01" }],
+        [POSITION_MANAGER]: [
+          {
+            blockNumber: 150n,
+            logIndex: 1,
+            topics: [TRANSFER_TOPIC, word("0x0"), word(HOLDER), word(7n)],
+          },
+        ],
+      },
+      {
+        "0x01": {
+          logs: [
+            {
+              address: POSITION_MANAGER,
+              topics: [TRANSFER_TOPIC, word("0x0"), word(HOLDER), word(7n)],
+            },
+          ],
+        },
+      }
+    );
+    ctx.tokens = [
+      {
+        address: "0x00000000000000000000000000000000000000bb",
+        lpAddress: POOL,
+      },
+    ];
+
+    expect(await getAllLPHolders(ctx, 200)).toEqual([]);
+    expect(ctx.store.head(lpMintsStream(POOL))).toBe(100);
+
+    chain.tip = 200;
+    expect(await getAllLPHolders(ctx, 200)).toEqual([
+      { address: HOLDER, tokenIds: [7n] },
+    ]);
+    expect(ctx.store.read(lpMintsStream(POOL))).toEqual([
+      { tokenId: 7n, blockNumber: 150 },
+    ]);
+  });
+
+  test("position transfers stop where the mints are indexed", async () => {
+    const { chain, ctx } = mockChain({
+      [POSITION_MANAGER]: [
+        {
+          blockNumber: 150n,
+          logIndex: 1,
+          topics: [TRANSFER_TOPIC, word(POOL), word(HOLDER), word(7n)],
+        },
+      ],
+    });
+    ctx.store.append(lpMintsStream(POOL), 100, [
+      { tokenId: 7n, blockNumber: 50 },
+    ]);
+
+    await syncPositionTransfers(ctx, 200, POSITION_MANAGER, [POOL]);
+    expect(ctx.store.head(lpPositionsStream(POOL))).toBe(100);
+
+    chain.tip = 200;
+    ctx.store.append(lpMintsStream(POOL), 200, []);
+    await syncPositionTransfers(ctx, 200, POSITION_MANAGER, [POOL]);
+    expect(ctx.store.read(lpPositionsStream(POOL))).toEqual([
+      { tokenId: 7n, from: POOL, to: HOLDER, blockNumber: 150, logIndex: 1 },
+    ]);
+  });
+
+  test("V4 mints mined after the request are fetched later", async () => {
+    const pool: V4Pool = {
+      token: { address: "0x00000000000000000000000000000000000000bb" },
+      poolId: word("0x11"),
+      positionManager: POSITION_MANAGER,
+      poolManager: "0x00000000000000000000000000000000000000dd",
+      stateView: "0x00000000000000000000000000000000000000ee",
+    };
+    const { chain, ctx } = mockChain({
+      [pool.poolManager]: [{ blockNumber: 150n, args: { salt: word(7n) } }],
+    });
+
+    await syncV4Mints(ctx, pool, 200);
+    expect(ctx.store.head(lpMintsStream(pool.poolId))).toBe(100);
+
+    chain.tip = 200;
+    await syncV4Mints(ctx, pool, 200);
+    expect(ctx.store.read(lpMintsStream(pool.poolId))).toEqual([
+      { tokenId: 7n, blockNumber: 150 },
+    ]);
+  });
+
+  test("custodian deposits mined after the request are fetched later", async () => {
+    const vault = "0x00000000000000000000000000000000000000ff";
+    const custodian = createEventCustodian({
+      address: vault,
+      name: "Vault",
+      depositEvent:
+        "event Deposit(uint256 indexed tokenId, address indexed owner)",
+    });
+    const { chain, ctx } = mockChain({
+      [vault]: [
+        {
+          blockNumber: 150n,
+          eventName: "Deposit",
+          args: { tokenId: 7n, owner: HOLDER },
+        },
+      ],
+    });
+
+    expect(
+      await custodian.resolveOwners!(ctx, 200, [7n], POSITION_MANAGER)
+    ).toEqual(new Map());
+
+    chain.tip = 200;
+    expect(
+      await custodian.resolveOwners!(ctx, 200, [7n], POSITION_MANAGER)
+    ).toEqual(new Map([[7n, HOLDER]]));
+  });
+});
@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { IndexStore } from "./types";
+
+type StreamState = { head?: number; records: unknown[] };
+
+// Bigints are written as "123n" strings so records round-trip exactly.
+const replacer = (_key: string, value: unknown) =>
+  typeof value === "bigint" ? `${value}n` : value;
+
+const reviver = (_key: string, value: unknown) =>
+  typeof value === "string" && /^-?\d+n$/.test(value)
+    ? BigInt(value.slice(0, -1))
+    : value;
+
+// Calls on the same streams run one after the other, so a sync reads the
+// head only after the previous sync of those streams has appended.
+const createStreamLock = () => {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return <T>(streams: string[], fn: () => Promise<T>) => {
+    const result = Promise.all(streams.map((stream) => tails.get(stream))).then(
+      fn
+    );
+    const done = result.catch(() => undefined);
+    for (const stream of streams) tails.set(stream, done);
+    done.then(() => {
+      for (const stream of streams) {
+        if (tails.get(stream) === done) tails.delete(stream);
+      }
+    });
+    return result;
+  };
+};
+
+const fallbackLocks = new WeakMap<
+  IndexStore,
+  ReturnType<typeof createStreamLock>
+>();
+
+// Syncs hold their streams from reading the head until the last append, so
+// concurrent runs on one store never fetch and store the same blocks twice.
+export const lockStreams = <T>(
+  store: IndexStore,
+  streams: string[],
+  fn: () => Promise<T>
+): Promise<T> => {
+  if (store.lock) return store.lock(streams, fn);
+  if (!fallbackLocks.has(store)) fallbackLocks.set(store, createStreamLock());
+  return fallbackLocks.get(store)!(streams, fn);
+};
+
+const createStore = (
+  load: (stream: string) => StreamState,
+  persist?: (stream: string, head: number, records: unknown[]) => void
+): IndexStore => {
+  const streams = new Map<string, StreamState>();
+
+  const get = (stream: string) => {
+    if (!streams.has(stream)) streams.set(stream, load(stream));
+    return streams.get(stream)!;
+  };
+
+  return {
+    head: (stream) => get(stream).head,
+    read: <T>(stream: string) => get(stream).records as T[],
+    append: (stream, head, records) => {
+      const state = get(stream);
+      // Blocks up to the head are already stored.
+      if (state.head !== undefined && head <= state.head) return;
+      persist?.(stream, head, records);
+      state.records.push(...records);
+      state.head = head;
+    },
+    lock: createStreamLock(),
+  };
+};
+
+export const createMemoryIndexStore = (): IndexStore =>
+  createStore(() => ({ records: [] }));
+
+// Each stream is an append-only JSON-lines file. Every line is one batch
+// holding the block the stream is indexed up to after that batch, so a batch
+// and its head are written together and a torn last line is cut off on load.
+export const createFileIndexStore = (directory: string): IndexStore => {
+  fs.mkdirSync(directory, { recursive: true });
+  const filename = (stream: string) => path.join(directory, `${stream}.jsonl`);
+
+  return createStore(
+    (stream) => {
+      const state: StreamState = { records: [] };
+      if (!fs.existsSync(filename(stream))) return state;
+
+      const content = fs.readFileSync(filename(stream), "utf8");
+      let validLength = 0;
+      for (const line of content.split("\n")) {
+        if (!line) continue;
+        try {
+          const batch = JSON.parse(line, reviver);
+          state.records.push(...batch.records);
+          state.head = batch.head;
+          validLength += Buffer.byteLength(line) + 1;
+        } catch {
+          fs.truncateSync(filename(stream), validLength);
+          break;
+        }
+      }
+      return state;
+    },
+    (stream, head, records) => {
+      fs.appendFileSync(
+        filename(stream),
+        JSON.stringify({ head, records }, replacer) + "\n"
+      );
+    }
+  );
+};
+
+// Keeps the streams of several chains apart in one store, since the same
+// address can exist on more than one chain.
+export const createScopedIndexStore = (
+  store: IndexStore,
+  prefix: string
+): IndexStore => ({
+  head: (stream) => store.head(`${prefix}${stream}`),
+  read: <T>(stream: string) => store.read<T>(`${prefix}${stream}`),
+  append: (stream, head, records) =>
+    store.append(`${prefix}${stream}`, head, records),
+  lock: (streams, fn) =>
+    lockStreams(
+      store,
+      streams.map((stream) => `${prefix}${stream}`),
+      fn
+    ),
+});
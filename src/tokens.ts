@@ -0,0 +1,37 @@
+import { formatUnits } from "viem";
+import type { Balance, Token } from "./types";
+import { DEFAULT_CHAIN_ID } from "./chains";
+
+// Columns carry the chain id once tokens span several chains.
+export const tokenLabel = (tokens: Token[], token: Token) =>
+  new Set(tokens.map((t) => t.chainId ?? DEFAULT_CHAIN_ID)).size > 1
+    ? `${token.chainId ?? DEFAULT_CHAIN_ID}:${token.address}`
+    : token.address;
+
+export const findTokenBalance = (balances: Balance["balances"], token: Token) =>
+  balances.find(
+    (b) =>
+      b.tokenAddress.toLowerCase() === token.address.toLowerCase() &&
+      (b.chainId === undefined ||
+        b.chainId === (token.chainId ?? DEFAULT_CHAIN_ID))
+  );
+
+// The token columns of snapshot exports, shared with payout exports.
+export const snapshotTokenHeaders = (tokens: Token[]) =>
+  tokens.flatMap((token) => [
+    `${tokenLabel(tokens, token)} Token Balance`,
+    `${tokenLabel(tokens, token)} LP Balance`,
+    `${tokenLabel(tokens, token)} LP Fees`,
+  ]);
+
+export const snapshotTokenCells = (holder: Balance, tokens: Token[]) =>
+  tokens.flatMap((token) => {
+    const balances = findTokenBalance(holder.balances, token);
+    return balances
+      ? [
+          formatUnits(balances.balance, balances.decimals),
+          formatUnits(balances.lpBalance, balances.decimals),
+          formatUnits(balances.lpFees, balances.decimals),
+        ]
+      : ["0", "0", "0"];
+  });
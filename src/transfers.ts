@@ -0,0 +1,232 @@
+import type { Hex } from "viem";
+import type {
+  IndexerContext,
+  LPPosition,
+  Token,
+  Transfer,
+  TransferShortfall,
+} from "./types";
+import { clampToChainTip } from "./chains";
+import { ProviderError } from "./errors";
+import { lockStreams } from "./store";
+
+export const ERC20_ABI = [
+  {
+    name: "decimals",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    name: "balanceOf",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "totalSupply",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+] as const;
+
+// Decimals are keyed by lowercased token address.
+export const getTokenDecimals = async (
+  ctx: IndexerContext,
+  tokenAddresses: string[]
+) => {
+  const addresses = Array.from(
+    new Set(tokenAddresses.map((address) => address.toLowerCase()))
+  );
+
+  const results = await ctx.provider.multicall({
+    contracts: addresses.map((address) => ({
+      address: address as Hex,
+      abi: ERC20_ABI,
+      functionName: "decimals" as const,
+    })),
+  });
+
+  const decimals = new Map<string, number>();
+  addresses.forEach((address, index) => {
+    const result = results[index];
+    if (result.status !== "success") {
+      throw new ProviderError(`Failed to read decimals for token ${address}`, {
+        cause: result.error,
+      });
+    }
+    decimals.set(address, result.result);
+  });
+
+  return decimals;
+};
+
+const transfersStream = (token: Token) =>
+  `transfers-${token.address.toLowerCase()}`;
+
+// Only the blocks after each token's indexed head are fetched; everything up
+// to blockNumber is then answered from the store. The head never passes the
+// chain tip, so transfers mined later in a requested range are still fetched.
+export const getAllTransfers = async (
+  ctx: IndexerContext,
+  blockNumber: number
+) => {
+  const { provider, store, tokens, logging } = ctx;
+  if (logging) console.time("getAllTransfers");
+
+  await lockStreams(store, tokens.map(transfersStream), async () => {
+    const staleTokens = new Map<number, Token[]>();
+    for (const token of tokens) {
+      const head = store.head(transfersStream(token));
+      if (head !== undefined && head >= blockNumber) continue;
+
+      const fromBlock = head === undefined ? 0 : head + 1;
+      staleTokens.set(fromBlock, [
+        ...(staleTokens.get(fromBlock) ?? []),
+        token,
+      ]);
+    }
+
+    const scannedTo =
+      staleTokens.size > 0
+        ? await clampToChainTip(ctx, blockNumber)
+        : blockNumber;
+
+    for (const [fromBlock, group] of staleTokens) {
+      if (fromBlock > scannedTo) continue;
+      const fetched = await provider.getTransfers({
+        contractAddresses: group.map((token) => token.address),
+        fromBlock,
+        toBlock: scannedTo,
+      });
+
+      for (const token of group) {
+        store.append(
+          transfersStream(token),
+          scannedTo,
+          fetched.filter(
+            (transfer) =>
+              transfer.tokenAddress.toLowerCase() ===
+              token.address.toLowerCase()
+          )
+        );
+      }
+    }
+  });
+
+  const transfers = tokens.flatMap((token) =>
+    store
+      .read<Transfer>(transfersStream(token))
+      .filter((transfer) => transfer.blockNumber <= blockNumber)
+  );
+  const decimals = await getTokenDecimals(
+    ctx,
+    tokens.map((token) => token.address)
+  );
+
+  if (logging) console.timeEnd("getAllTransfers");
+  return { transfers, decimals };
+};
+
+// Rebuilds balances from transfers. A sender can never go below zero; every
+// time that would happen the missing amount is recorded as a shortfall, which
+// points at missed transfers or fee-on-transfer behaviour. onChange sees each
+// balance right before a transfer changes it.
+export const replayTransfers = (
+  transfers: Transfer[],
+  tokens: Token[],
+  onChange?: (
+    holderAddress: string,
+    tokenAddress: string,
+    previousBalance: bigint,
+    blockNumber: number
+  ) => void
+) => {
+  const holderBalances = new Map<
+    string,
+    Map<
+      string,
+      {
+        balance: bigint;
+        lpBalance: bigint;
+        lpFees: bigint;
+        lpPositions?: LPPosition[];
+      }
+    >
+  >();
+  const shortfalls: TransferShortfall[] = [];
+
+  for (const token of tokens) {
+    const tokenTransfers = transfers
+      .filter(
+        (transfer) =>
+          transfer.tokenAddress.toLowerCase() === token.address.toLowerCase()
+      )
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    for (const transfer of tokenTransfers) {
+      const amount = transfer.value;
+      const fromAddress = transfer.from;
+      const toAddress = transfer.to;
+
+      if (fromAddress !== "0x0000000000000000000000000000000000000000") {
+        if (!holderBalances.has(fromAddress)) {
+          holderBalances.set(fromAddress, new Map());
+        }
+        const senderBalances = holderBalances.get(fromAddress)!;
+        const currentBalance = senderBalances.get(token.address)?.balance || 0n;
+
+        onChange?.(
+          fromAddress,
+          token.address,
+          currentBalance,
+          transfer.blockNumber
+        );
+
+        if (currentBalance < amount) {
+          shortfalls.push({
+            holderAddress: fromAddress,
+            tokenAddress: token.address,
+            transactionHash: transfer.transactionHash,
+            blockNumber: transfer.blockNumber,
+            shortfall: amount - currentBalance,
+          });
+        }
+
+        senderBalances.set(token.address, {
+          balance: currentBalance > amount ? currentBalance - amount : 0n,
+          lpBalance: senderBalances.get(token.address)?.lpBalance || 0n,
+          lpFees: senderBalances.get(token.address)?.lpFees || 0n,
+        });
+      }
+
+      if (toAddress !== "0x0000000000000000000000000000000000000000") {
+        if (!holderBalances.has(toAddress)) {
+          holderBalances.set(toAddress, new Map());
+        }
+        const receiverBalances = holderBalances.get(toAddress)!;
+        const currentBalance =
+          receiverBalances.get(token.address)?.balance || 0n;
+
+        onChange?.(
+          toAddress,
+          token.address,
+          currentBalance,
+          transfer.blockNumber
+        );
+
+        receiverBalances.set(token.address, {
+          balance: currentBalance + amount,
+          lpBalance: receiverBalances.get(token.address)?.lpBalance || 0n,
+          lpFees: receiverBalances.get(token.address)?.lpFees || 0n,
+        });
+      }
+    }
+  }
+
+  return { holderBalances, shortfalls };
+};
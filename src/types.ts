@@ -1,21 +1,257 @@
+import type { Hex, PublicClient } from "viem";
+
 export type Token = {
   address: string;
-  lpAddress: string;
+  // Defaults to Base.
+  chainId?: number;
+  // Shorthand for a single Uniswap V3 pool source.
+  lpAddress?: string;
+  liquiditySources?: LiquiditySource[];
 };
 
+// Where holders provide liquidity for a token. V2-style pools (Uniswap V2,
+// Aerodrome and other Solidly forks) issue fungible LP shares; concentrated
+// liquidity pools issue position NFTs.
+export type LiquiditySource =
+  | { type: "uniswap-v3"; poolAddress: string }
+  | { type: "erc20-lp"; pairAddress: string }
+  | {
+      type: "uniswap-v4";
+      poolId: Hex;
+      // Default to the Uniswap V4 deployments on Base.
+      positionManager?: string;
+      poolManager?: string;
+      stateView?: string;
+    };
+
+export type LiquiditySourceType = LiquiditySource["type"];
+
 export type Balance = {
   holderAddress: string;
   balances: {
     tokenAddress: string;
-    balance: number;
-    lpBalance: number;
+    balance: bigint;
+    lpBalance: bigint;
+    lpFees: bigint;
+    lpPositions?: LPPosition[];
+    decimals: number;
+    // Set on snapshots merged across chains.
+    chainId?: number;
   }[];
 };
 
+// Amounts and fees are in the configured token of the position's pool.
+// V2-style LP shares have no token id or ticks and are always in range.
+export type LPPosition = {
+  source: LiquiditySourceType;
+  // Pool address, pair address or V4 pool id.
+  pool: string;
+  tokenId?: bigint;
+  tickLower?: number;
+  tickUpper?: number;
+  liquidity: bigint;
+  amount: bigint;
+  fees: bigint;
+  inRange: boolean;
+  activeLiquidityShare: number;
+};
+
+// A single multiplier for all LP balances, or separate multipliers for
+// positions in range and out of range at the snapshot block.
+export type LPWeight = number | { inRange: number; outOfRange: number };
+
 export type Winner = {
   address: string;
   weight: number;
   balances: Balance[];
+  // The prize tier won, in tiered draws.
+  tier?: string;
+  // Every address of the cluster the winner entered for, in clustered draws.
+  cluster?: string[];
+};
+
+// A named prize tier, e.g. { name: "grand", winners: 1 }. Tiers are drawn in
+// order from the same entrants, so a holder wins at most one tier per draw.
+export type PrizeTier = {
+  name: string;
+  winners: number;
+};
+
+export type DrawRecord = {
+  // Labels the draw, e.g. the campaign week.
+  id?: string;
+  blockNumber: number;
+  drawnAt: string;
+  winners: { address: string; tier?: string }[];
+};
+
+// Past draws, oldest first. Each draw is one round.
+export type DrawHistory = {
+  draws: DrawRecord[];
+};
+
+// How winners of the latest rounds in the draw history take part. Winners of
+// the last excludeRounds draws sit out; winners of the downWeightRounds draws
+// before those have their weight multiplied by downWeight.
+export type RecentWinnerPolicy = {
+  excludeRounds?: number;
+  downWeightRounds?: number;
+  downWeight?: number;
+};
+
+// A public seed for verifiable draws: either the hash of a block mined after
+// the snapshot block, or a value published through commit-reveal.
+export type DrawSeed = { blockNumber: number } | { value: Hex };
+
+// Turns a holder's amount into draw weight. The amount is the holder's token
+// balances plus LP amounts times lpWeight, in token units or, with prices, in
+// quote token units, each token times its multiplier, summed across tokens.
+export interface WeightingStrategy {
+  name: string;
+  // Recorded in the winners export and the draw proof.
+  params?: Record<string, unknown>;
+  weigh: (amount: number, holder: Balance) => number;
+}
+
+// The built-in strategies as plain data, e.g. for config files and requests.
+export type WeightingConfig =
+  | { type: "linear" }
+  | { type: "sqrt" }
+  | { type: "log"; base?: number }
+  | { type: "capped"; cap: number }
+  | { type: "tiered"; tiers: { minAmount: number; tickets: number }[] };
+
+// What a draw was weighted with.
+export type WeightingRecord = {
+  name: string;
+  params?: Record<string, unknown>;
+  tokenMultipliers?: Record<string, number>;
+  // Set when amounts were valued in this quote token.
+  quoteToken?: string;
+};
+
+// Values holdings in a shared quote token, such as WETH or USDC, at pool
+// prices of the snapshot block.
+export type ValuationConfig = {
+  quoteToken: string;
+  // Defaults to 18.
+  quoteDecimals?: number;
+  // Shown in export headers, e.g. "WETH". Defaults to the quote token address.
+  quoteSymbol?: string;
+  // Quote tokens on chains other than Base, by chain id.
+  quoteTokens?: Record<number, string>;
+  // The Uniswap V3 pool or V2-style pair pricing each token, by token address.
+  // Defaults to the first of the token's liquidity sources paired with the
+  // quote token.
+  pools?: Record<string, string>;
+};
+
+// Quote token wei per token wei: numerator / denominator.
+export type TokenPrice = {
+  tokenAddress: string;
+  chainId: number;
+  quoteToken: string;
+  quoteDecimals: number;
+  quoteSymbol?: string;
+  // The pool the price was read from, or "quote" for the quote token itself.
+  pool: string;
+  numerator: bigint;
+  denominator: bigint;
+};
+
+export type DrawOptions = {
+  seed?: DrawSeed;
+  // Weigh holders by their average balances from fromBlock up to the draw block.
+  timeWeighted?: { fromBlock: number; lpSamples?: number };
+  // Defaults to linear weighting.
+  weighting?: WeightingStrategy;
+  // Multiplies a token's amounts, keyed by token address, or chainId:address
+  // for tokens on several chains. Defaults to 1.
+  tokenMultipliers?: Record<string, number>;
+  // Weighs amounts by their value in the quote token instead of token units.
+  prices?: TokenPrice[];
+  // Splits the winners into tiers; their counts must add up to the number
+  // of winners.
+  tiers?: PrizeTier[];
+  history?: DrawHistory;
+  recentWinners?: RecentWinnerPolicy;
+  // Each cluster enters once, with its members' combined amounts.
+  clusters?: Cluster[];
+};
+
+// direct-transfer: one sent the other tokens. shared-funder: both got their
+// first tokens from the same wallet. identical-acquisition: both received the
+// same amounts of the same tokens from the same senders, starting within a few
+// blocks of each other.
+export type ClusterHeuristic =
+  | "direct-transfer"
+  | "shared-funder"
+  | "identical-acquisition";
+
+// Why two addresses were linked. Repeated evidence between the same pair is
+// counted on the first occurrence.
+export type ClusterEvidence = {
+  heuristic: ClusterHeuristic;
+  addresses: [string, string];
+  funder?: string;
+  chainId: number;
+  blockNumber: number;
+  transactionHash: string;
+  count: number;
+};
+
+// Addresses likely controlled by one person, lowercase. The id is the lowest
+// address.
+export type Cluster = {
+  id: string;
+  addresses: string[];
+  evidence: ClusterEvidence[];
+};
+
+export type ClusterConfig = {
+  // Defaults to all heuristics.
+  heuristics?: ClusterHeuristic[];
+  // Wallets with more counterparties than this, such as routers and exchange
+  // hot wallets, link nobody. Defaults to 50.
+  maxCounterparties?: number;
+  // Funders and acquisition patterns shared by more wallets than this, such as
+  // airdrops, link nobody. Defaults to 20.
+  maxGroupSize?: number;
+  // Defaults to 10 blocks.
+  acquisitionBlockWindow?: number;
+};
+
+// Chi-square goodness of fit of the draw engine's picks against their exact
+// probabilities, for one source of randomness.
+export type DrawSelfTestResult = {
+  source: "seeded" | "secure";
+  trials: number;
+  chiSquare: number;
+  degreesOfFreedom: number;
+  // Wilson–Hilferty normal approximation of the chi-square statistic.
+  zScore: number;
+  passed: boolean;
+};
+
+export type DrawProof = {
+  version: string;
+  snapshotBlock: number;
+  seed: Hex;
+  seedBlockNumber?: number;
+  lpWeight: LPWeight;
+  timeWeightedFromBlock?: number;
+  weighting?: WeightingRecord;
+  // Blocks each chain was read at, for draws across several chains.
+  chainBlocks?: Record<string, number>;
+  // Winners are assigned to tiers in the order they were drawn.
+  tiers?: PrizeTier[];
+  // Entrant weights already include the policy.
+  recentWinners?: RecentWinnerPolicy;
+  // Clusters that entered as one, listed under their entrant address.
+  clusters?: Record<string, string[]>;
+  numberOfWinners: number;
+  entrants: { address: string; weight: string }[];
+  winners: string[];
 };
 
 export interface Slot0Data {
@@ -27,3 +263,299 @@ export interface LPHolder {
   address: string;
   tokenIds: bigint[];
 }
+
+export type Transfer = {
+  blockNumber: number;
+  tokenAddress: string;
+  from: string;
+  to: string;
+  value: bigint;
+  transactionHash: string;
+  logIndex: number;
+};
+
+export type TransferShortfall = {
+  holderAddress: string;
+  tokenAddress: string;
+  transactionHash: string;
+  blockNumber: number;
+  shortfall: bigint;
+};
+
+export type BalanceDiscrepancy = {
+  holderAddress: string;
+  tokenAddress: string;
+  replayed: bigint;
+  onChain: bigint;
+  difference: bigint;
+};
+
+export type SupplyCheck = {
+  tokenAddress: string;
+  totalSupply: bigint;
+  replayedSum: bigint;
+  onChainSum: bigint;
+  difference: bigint;
+};
+
+export type SnapshotVerification = {
+  blockNumber: number;
+  valid: boolean;
+  checkedBalances: number;
+  discrepancies: BalanceDiscrepancy[];
+  supply: SupplyCheck[];
+  shortfalls: TransferShortfall[];
+  failedCalls: { holderAddress: string; tokenAddress: string }[];
+};
+
+// Weights are token amounts at 18 decimals, so tokens with different decimals
+// count alike. Amounts are in wei of the distributed token.
+export type AllocationRules = {
+  // Multiplies LP amounts and fees.
+  lpWeight?: LPWeight;
+  // Multiplies a token's balance and LP amounts, keyed by token address, or
+  // chainId:address for tokens on several chains. Defaults to 1.
+  tokenMultipliers?: Record<string, number>;
+  // Holders with a smaller weight get nothing, e.g. parseUnits("1000", 18)
+  // for 1000 tokens.
+  minHolding?: bigint;
+  // Every remaining holder gets at least this much.
+  floor?: bigint;
+  // Nobody gets more than this; the excess goes to the holders below it.
+  cap?: bigint;
+};
+
+// How an airdrop is split.
+export type AllocationRule =
+  | { type: "equal"; amount: bigint }
+  | ({ type: "pro-rata"; totalAmount: bigint } & AllocationRules)
+  | { type: "custom"; amountFor: (holder: Balance) => bigint };
+
+// Amounts are in wei of the airdropped token.
+export type Allocation = { address: string; amount: bigint }[];
+
+export type Payout = {
+  address: string;
+  amount: bigint;
+  weight: bigint;
+  holder: Balance;
+};
+
+// OpenZeppelin's StandardMerkleTree dump, loadable with
+// StandardMerkleTree.load from @openzeppelin/merkle-tree.
+export type MerkleTreeDump = {
+  format: "standard-v1";
+  leafEncoding: ["address", "uint256"];
+  tree: Hex[];
+  values: { value: [string, string]; treeIndex: number }[];
+};
+
+export type Distribution = {
+  root: Hex;
+  totalAmount: bigint;
+  claims: { address: string; amount: bigint; proof: Hex[] }[];
+  tree: MerkleTreeDump;
+};
+
+export type DistributionVerification = {
+  valid: boolean;
+  totalAmount: bigint;
+  intendedAmount: bigint;
+  errors: string[];
+};
+
+export type BalanceDelta = {
+  tokenAddress: string;
+  chainId?: number;
+  decimals: number;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+  balanceDelta: bigint;
+  lpBalanceBefore: bigint;
+  lpBalanceAfter: bigint;
+  lpBalanceDelta: bigint;
+};
+
+export type HolderDiff = {
+  holderAddress: string;
+  status: "new" | "exited" | "changed";
+  // Sum of absolute token and LP balance changes, in token units.
+  movement: number;
+  deltas: BalanceDelta[];
+};
+
+// Blocks are left out when a side was read from an exported file.
+export type SnapshotDiff = {
+  fromBlock?: number;
+  toBlock?: number;
+  newHolders: string[];
+  exitedHolders: string[];
+  changes: HolderDiff[];
+  topMovers: HolderDiff[];
+};
+
+export type TransferRequest = {
+  contractAddresses: string[];
+  fromBlock?: number;
+  toBlock: number;
+};
+
+// Everything the indexer reads from the chain goes through a provider, so the
+// same calls can run against Alchemy, a self-hosted node or a local fork.
+export interface ChainDataProvider {
+  getTransfers: (request: TransferRequest) => Promise<Transfer[]>;
+  getLogs: PublicClient["getLogs"];
+  getTransactionReceipt: PublicClient["getTransactionReceipt"];
+  multicall: PublicClient["multicall"];
+  getBlock: PublicClient["getBlock"];
+  getCode: PublicClient["getCode"];
+}
+
+// Where Alchemy providers read transfers from: the transfers API, or ERC20
+// Transfer logs bounded by the requested block.
+export type TransferSource = "alchemy" | "logs";
+
+export type ProviderMethod = keyof ChainDataProvider;
+
+// Limits for the calls a provider makes. The defaults fit Alchemy's free tier
+// of 330 compute units per second.
+export type RequestSchedulerConfig = {
+  computeUnitsPerSecond?: number;
+  // Compute units that can be spent at once after an idle period. Defaults to
+  // computeUnitsPerSecond.
+  burst?: number;
+  // Calls in flight at the same time.
+  concurrency?: number;
+  // Retries after a 429, 5xx or timeout, with exponential backoff and jitter.
+  maxRetries?: number;
+  baseRetryDelay?: number;
+  maxRetryDelay?: number;
+  // Compute units charged per call, defaulting to Alchemy's pricing.
+  computeUnits?: Partial<Record<ProviderMethod | "getTransfersPage", number>>;
+};
+
+export interface RequestScheduler {
+  schedule: <T>(
+    method: ProviderMethod | "getTransfersPage",
+    call: () => Promise<T>
+  ) => Promise<T>;
+}
+
+// Records are kept per stream together with the last block the stream has
+// been indexed up to, so later runs only fetch the blocks after it.
+export interface IndexStore {
+  head: (stream: string) => number | undefined;
+  read: <T>(stream: string) => T[];
+  append: <T>(stream: string, head: number, records: T[]) => void;
+  // Runs fn once no other sync holds any of the streams. Stores without it
+  // are locked in memory by lockStreams.
+  lock?: <T>(streams: string[], fn: () => Promise<T>) => Promise<T>;
+}
+
+export type LPMint = {
+  tokenId: bigint;
+  blockNumber: number;
+};
+
+export type PositionTransfer = {
+  tokenId: bigint;
+  from: string;
+  to: string;
+  blockNumber: number;
+  logIndex: number;
+};
+
+// Without tokenAddress the address is excluded for every token, otherwise only
+// its balances of that token are dropped.
+export type ExclusionEntry = {
+  address: string;
+  tokenAddress?: string;
+  reason?: string;
+};
+
+export type ExclusionConfig = {
+  addresses?: ExclusionEntry[];
+  excludeContracts?: boolean;
+  contractAllowlist?: string[];
+  useDefaults?: boolean;
+};
+
+export type ExcludedHolder = {
+  holderAddress: string;
+  tokenAddress?: string;
+  reason: string;
+  balances: Balance["balances"];
+};
+
+// A contract that holds liquidity on behalf of depositors, such as an
+// auto-compounder, vault or gauge. Position NFTs go to the owners it resolves
+// by token id, and V2-style LP shares to the stakers it resolves by amount.
+export interface PositionCustodian {
+  address: string;
+  name: string;
+  // The position manager whose NFTs it holds. Without one, it is asked about
+  // the NFTs of every position manager.
+  positionManager?: string;
+  resolveOwners?: (
+    ctx: IndexerContext,
+    blockNumber: number,
+    tokenIds: bigint[],
+    positionManager: string
+  ) => Promise<Map<bigint, string>>;
+  resolveShares?: (
+    ctx: IndexerContext,
+    blockNumber: number,
+    pairAddress: string
+  ) => Promise<Map<string, bigint>>;
+}
+
+// Overrides for a chain's provider and well-known contracts. Without a
+// provider or rpcUrl, the indexer's Alchemy API key is used.
+export type ChainConfig = {
+  provider?: ChainDataProvider;
+  rpcUrl?: string;
+  // Gives the chain its own budget instead of sharing the indexer's.
+  rateLimit?: RequestSchedulerConfig;
+  transferSource?: TransferSource;
+  positionManager?: string;
+  custodians?: PositionCustodian[];
+};
+
+// What a run could not read. Results are complete when every list is empty.
+export type RunReport = {
+  skippedTransactions: {
+    chainId: number;
+    transactionHash: string;
+    reason: string;
+  }[];
+  failedTokenIds: {
+    chainId: number;
+    positionManager: string;
+    tokenId: bigint;
+    reason: string;
+  }[];
+  unscannedRanges: {
+    chainId: number;
+    address: string;
+    fromBlock: number;
+    toBlock: number;
+    reason: string;
+  }[];
+  missingSlot0: { chainId: number; pool: string }[];
+};
+
+// A context covers the tokens of one chain.
+export type IndexerContext = {
+  provider: ChainDataProvider;
+  store: IndexStore;
+  tokens: Token[];
+  // Defaults to Base.
+  chainId?: number;
+  positionManager?: string;
+  exclusions?: ExclusionConfig;
+  includeLPFees?: boolean;
+  custodians?: PositionCustodian[];
+  logging?: boolean;
+  // Collects what could not be read during one run.
+  report?: RunReport;
+};
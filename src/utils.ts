@@ -0,0 +1,7 @@
+export const delay = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Extra exports are written next to the main one, e.g. snapshot.csv with the
+// "excluded" suffix produces snapshot.excluded.csv.
+export const companionFilename = (exportFilename: string, suffix: string) =>
+  exportFilename.replace(/(\.[^./]+)?$/, `.${suffix}$1`);
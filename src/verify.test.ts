@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+import type { IndexerContext, Transfer } from "./types";
+import { verifySnapshot } from "./verify";
+import { createMemoryIndexStore } from "./store";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const ZERO = "0x0000000000000000000000000000000000000000";
+const ALICE = "0x0000000000000000000000000000000000000001";
+const BOB = "0x0000000000000000000000000000000000000002";
+
+let logIndex = 0;
+const transfer = (
+  from: string,
+  to: string,
+  value: bigint,
+  blockNumber: number
+): Transfer => ({
+  blockNumber,
+  tokenAddress: TOKEN,
+  from,
+  to,
+  value,
+  transactionHash: `0x${(++logIndex).toString(16).padStart(64, "0")}`,
+  logIndex,
+});
+
+// Alice mints 100 and sends Bob 30.
+const TRANSFERS = [
+  transfer(ZERO, ALICE, 100n, 1),
+  transfer(ALICE, BOB, 30n, 2),
+];
+
+type MockCall = { functionName: string; args?: [string] };
+
+// Serves transfers and answers balanceOf from balances, where a missing
+// holder reverts, and totalSupply from totalSupply, at chain head 1000.
+const mockContext = (
+  transfers: Transfer[],
+  balances: Map<string, bigint>,
+  totalSupply: bigint
+) =>
+  ({
+    provider: {
+      getBlock: async () => ({ number: 1000n }),
+      getTransfers: async (request: { fromBlock: number; toBlock: number }) =>
+        transfers.filter(
+          (t) =>
+            t.blockNumber >= request.fromBlock &&
+            t.blockNumber <= request.toBlock
+        ),
+      multicall: async ({ contracts }: { contracts: MockCall[] }) =>
+        contracts.map(({ functionName, args }) => {
+          if (functionName === "decimals") {
+            return { status: "success", result: 18 };
+          }
+          if (functionName === "totalSupply") {
+            return { status: "success", result: totalSupply };
+          }
+          return balances.has(args![0])
+            ? { status: "success", result: balances.get(args![0]) }
+            : { status: "failure", error: new Error("execution reverted") };
+        }),
+    },
+    store: createMemoryIndexStore(),
+    tokens: [{ address: TOKEN }],
+  } as unknown as IndexerContext);
+
+describe("verifySnapshot", () => {
+  test("passes when replayed balances and supply match the chain", async () => {
+    const verification = await verifySnapshot(
+      mockContext(
+        TRANSFERS,
+        new Map([
+          [ALICE, 70n],
+          [BOB, 30n],
+        ]),
+        100n
+      ),
+      10
+    );
+
+    expect(verification).toMatchObject({
+      blockNumber: 10,
+      valid: true,
+      checkedBalances: 2,
+      discrepancies: [],
+      shortfalls: [],
+      failedCalls: [],
+    });
+    expect(verification.supply).toEqual([
+      {
+        tokenAddress: TOKEN,
+        totalSupply: 100n,
+        replayedSum: 100n,
+        onChainSum: 100n,
+        difference: 0n,
+      },
+    ]);
+  });
+
+  test("reports balances and supply that differ from the replay", async () => {
+    const verification = await verifySnapshot(
+      mockContext(
+        TRANSFERS,
+        new Map([
+          [ALICE, 75n],
+          [BOB, 30n],
+        ]),
+        110n
+      ),
+      10
+    );
+
+    expect(verification.valid).toBe(false);
+    expect(verification.discrepancies).toEqual([
+      {
+        holderAddress: ALICE,
+        tokenAddress: TOKEN,
+        replayed: 70n,
+        onChain: 75n,
+        difference: 5n,
+      },
+    ]);
+    expect(verification.supply[0]).toMatchObject({
+      replayedSum: 100n,
+      onChainSum: 105n,
+      difference: 5n,
+    });
+  });
+
+  test("reports shortfalls and balances it could not read", async () => {
+    const verification = await verifySnapshot(
+      mockContext(
+        [...TRANSFERS, transfer(BOB, ALICE, 50n, 3)],
+        new Map([[ALICE, 120n]]),
+        100n
+      ),
+      10
+    );
+
+    expect(verification.valid).toBe(false);
+    expect(verification.shortfalls).toMatchObject([
+      {
+        holderAddress: BOB,
+        tokenAddress: TOKEN,
+        blockNumber: 3,
+        shortfall: 20n,
+      },
+    ]);
+    expect(verification.failedCalls).toEqual([
+      { holderAddress: BOB, tokenAddress: TOKEN },
+    ]);
+  });
+});
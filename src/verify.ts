@@ -0,0 +1,156 @@
+import * as fs from "fs";
+import type { Hex } from "viem";
+import type {
+  BalanceDiscrepancy,
+  IndexerContext,
+  SnapshotVerification,
+  SupplyCheck,
+} from "./types";
+import { ERC20_ABI, getAllTransfers, replayTransfers } from "./transfers";
+
+// Checks replayed balances against balanceOf for every address that ever sent
+// or received a token, and each token's totalSupply against the balance sums.
+export const verifySnapshot = async (
+  ctx: IndexerContext,
+  blockNumber: number
+): Promise<SnapshotVerification> => {
+  const { provider: client, tokens, logging } = ctx;
+  const transfers = await getAllTransfers(ctx, blockNumber);
+
+  if (logging) console.time("verifySnapshot");
+
+  const { holderBalances, shortfalls } = replayTransfers(
+    transfers.transfers,
+    tokens
+  );
+
+  const balanceCalls = tokens.flatMap((token) =>
+    Array.from(holderBalances.entries())
+      .filter(([, balances]) => balances.has(token.address))
+      .map(([holderAddress, balances]) => ({
+        address: token.address as Hex,
+        abi: ERC20_ABI,
+        functionName: "balanceOf" as const,
+        args: [holderAddress as Hex],
+        holderAddress,
+        tokenAddress: token.address,
+        replayed: balances.get(token.address)!.balance,
+      }))
+  );
+
+  const CHUNK_SIZE = 500;
+  const discrepancies: BalanceDiscrepancy[] = [];
+  const failedCalls: SnapshotVerification["failedCalls"] = [];
+  const onChainSums = new Map<string, bigint>();
+
+  for (let i = 0; i < balanceCalls.length; i += CHUNK_SIZE) {
+    const chunk = balanceCalls.slice(i, i + CHUNK_SIZE);
+    const results = await client.multicall({
+      contracts: chunk,
+      blockNumber: BigInt(blockNumber),
+    });
+
+    results.forEach((result, index) => {
+      const { holderAddress, tokenAddress, replayed } = chunk[index];
+
+      if (result.status !== "success") {
+        failedCalls.push({ holderAddress, tokenAddress });
+        return;
+      }
+
+      const onChain = result.result;
+      onChainSums.set(
+        tokenAddress,
+        (onChainSums.get(tokenAddress) ?? 0n) + onChain
+      );
+
+      if (onChain !== replayed) {
+        discrepancies.push({
+          holderAddress,
+          tokenAddress,
+          replayed,
+          onChain,
+          difference: onChain - replayed,
+        });
+      }
+    });
+  }
+
+  const supplyResults = await client.multicall({
+    contracts: tokens.map((token) => ({
+      address: token.address as Hex,
+      abi: ERC20_ABI,
+      functionName: "totalSupply" as const,
+    })),
+    blockNumber: BigInt(blockNumber),
+  });
+
+  const supply: SupplyCheck[] = tokens.flatMap((token, index) => {
+    const result = supplyResults[index];
+    if (result.status !== "success") {
+      failedCalls.push({
+        holderAddress: "totalSupply",
+        tokenAddress: token.address,
+      });
+      return [];
+    }
+
+    const replayedSum = Array.from(holderBalances.values()).reduce(
+      (sum, balances) => sum + (balances.get(token.address)?.balance ?? 0n),
+      0n
+    );
+    const onChainSum = onChainSums.get(token.address) ?? 0n;
+
+    return [
+      {
+        tokenAddress: token.address,
+        totalSupply: result.result,
+        replayedSum,
+        onChainSum,
+        difference: result.result - onChainSum,
+      },
+    ];
+  });
+
+  if (logging) console.timeEnd("verifySnapshot");
+
+  return {
+    blockNumber,
+    valid:
+      discrepancies.length === 0 &&
+      failedCalls.length === 0 &&
+      shortfalls.length === 0 &&
+      supply.every(
+        (check) =>
+          check.difference === 0n && check.replayedSum === check.totalSupply
+      ),
+    checkedBalances: balanceCalls.length,
+    discrepancies,
+    supply,
+    shortfalls,
+    failedCalls,
+  };
+};
+
+export const exportVerificationToJSON = async (
+  verification: SnapshotVerification,
+  blockNumber?: number,
+  jsonExportFilename?: string,
+  logging?: boolean
+) => {
+  if (logging) console.time("exportVerificationToJSON");
+
+  const filename = jsonExportFilename
+    ? jsonExportFilename
+    : `verification-block-${blockNumber}.json`;
+
+  fs.writeFileSync(
+    filename,
+    JSON.stringify(
+      verification,
+      (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+      2
+    )
+  );
+  if (logging) console.timeEnd("exportVerificationToJSON");
+};
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import type { Balance, WeightingConfig } from "./types";
+import {
+  createWeighting,
+  describeWeighting,
+  getTokenMultiplier,
+  recordWeighting,
+  tieredWeighting,
+} from "./weighting";
+import { ConfigurationError } from "./errors";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+
+const balance = (chainId?: number): Balance["balances"][number] => ({
+  tokenAddress: TOKEN,
+  chainId,
+  balance: 0n,
+  lpBalance: 0n,
+  lpFees: 0n,
+  decimals: 18,
+});
+
+const HOLDER: Balance = { holderAddress: TOKEN, balances: [] };
+
+describe("weighting strategies", () => {
+  const weigh = (config: WeightingConfig, amounts: number[]) =>
+    amounts.map((amount) => createWeighting(config).weigh(amount, HOLDER));
+
+  test("weigh amounts as configured", () => {
+    expect(weigh({ type: "linear" }, [0, 4, 100])).toEqual([0, 4, 100]);
+    expect(weigh({ type: "sqrt" }, [0, 4, 100])).toEqual([0, 2, 10]);
+    expect(weigh({ type: "log", base: 10 }, [0, 9, 99])).toEqual([0, 1, 2]);
+    expect(weigh({ type: "capped", cap: 50 }, [0, 4, 100])).toEqual([0, 4, 50]);
+  });
+
+  test("give the tickets of the highest tier reached, and none below", () => {
+    const tiers = [
+      { minAmount: 1000, tickets: 5 },
+      { minAmount: 10, tickets: 1 },
+      { minAmount: 100, tickets: 2 },
+    ];
+
+    expect(weigh({ type: "tiered", tiers }, [5, 10, 99, 100, 5000])).toEqual([
+      0, 1, 1, 2, 5,
+    ]);
+    expect(tieredWeighting(tiers).params).toEqual({
+      tiers: [
+        { minAmount: 10, tickets: 1 },
+        { minAmount: 100, tickets: 2 },
+        { minAmount: 1000, tickets: 5 },
+      ],
+    });
+  });
+
+  test("rejects unknown strategies", () => {
+    expect(() =>
+      createWeighting({ type: "quadratic" } as unknown as WeightingConfig)
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe("getTokenMultiplier", () => {
+  test("prefers a chainId:address key over the plain address", () => {
+    const multipliers = {
+      [TOKEN.toUpperCase().replace("0X", "0x")]: 2,
+      [`10:${TOKEN}`]: 3,
+    };
+
+    expect(getTokenMultiplier(multipliers, balance())).toBe(2);
+    expect(getTokenMultiplier(multipliers, balance(8453))).toBe(2);
+    expect(getTokenMultiplier(multipliers, balance(10))).toBe(3);
+  });
+
+  test("defaults to 1", () => {
+    expect(getTokenMultiplier(undefined, balance())).toBe(1);
+    expect(getTokenMultiplier({ [`10:${TOKEN}`]: 3 }, balance())).toBe(1);
+  });
+});
+
+describe("describeWeighting", () => {
+  test("names the strategy, its parameters and the token multipliers", () => {
+    expect(
+      describeWeighting(
+        recordWeighting(createWeighting({ type: "capped", cap: 1000 }), {
+          [TOKEN]: 2,
+        })
+      )
+    ).toBe(`capped {"cap":1000} tokenMultipliers {"${TOKEN}":2}`);
+  });
+});
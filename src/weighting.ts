@@ -0,0 +1,115 @@
+import type {
+  Balance,
+  TokenPrice,
+  WeightingConfig,
+  WeightingRecord,
+  WeightingStrategy,
+} from "./types";
+import { ConfigurationError } from "./errors";
+
+export const linearWeighting = (): WeightingStrategy => ({
+  name: "linear",
+  weigh: (amount) => amount,
+});
+
+export const sqrtWeighting = (): WeightingStrategy => ({
+  name: "sqrt",
+  weigh: (amount) => Math.sqrt(amount),
+});
+
+// log(1 + amount), so holders of less than one token still get some weight.
+export const logWeighting = (base = Math.E): WeightingStrategy => ({
+  name: "log",
+  params: { base },
+  weigh: (amount) => Math.log1p(amount) / Math.log(base),
+});
+
+export const cappedWeighting = (cap: number): WeightingStrategy => ({
+  name: "capped",
+  params: { cap },
+  weigh: (amount) => Math.min(amount, cap),
+});
+
+// Each holder gets the tickets of the highest tier they reach, and none below
+// the lowest tier.
+export const tieredWeighting = (
+  tiers: { minAmount: number; tickets: number }[]
+): WeightingStrategy => {
+  const sorted = [...tiers].sort((a, b) => b.minAmount - a.minAmount);
+  return {
+    name: "tiered",
+    params: { tiers: [...sorted].reverse() },
+    weigh: (amount) =>
+      sorted.find((tier) => amount >= tier.minAmount)?.tickets ?? 0,
+  };
+};
+
+export const customWeighting = (
+  name: string,
+  weigh: WeightingStrategy["weigh"],
+  params?: Record<string, unknown>
+): WeightingStrategy => ({ name, params, weigh });
+
+export const createWeighting = (config: WeightingConfig): WeightingStrategy => {
+  switch (config.type) {
+    case "linear":
+      return linearWeighting();
+    case "sqrt":
+      return sqrtWeighting();
+    case "log":
+      return logWeighting(config.base);
+    case "capped":
+      return cappedWeighting(config.cap);
+    case "tiered":
+      return tieredWeighting(config.tiers);
+    default:
+      throw new ConfigurationError(
+        `Unknown weighting ${(config as { type: string }).type}`
+      );
+  }
+};
+
+// A chainId:address key takes precedence over the plain address.
+export const getTokenMultiplier = (
+  tokenMultipliers: Record<string, number> | undefined,
+  balance: Balance["balances"][number]
+) => {
+  if (!tokenMultipliers) return 1;
+  const multipliers = new Map(
+    Object.entries(tokenMultipliers).map(([key, value]) => [
+      key.toLowerCase(),
+      value,
+    ])
+  );
+  const address = balance.tokenAddress.toLowerCase();
+  return (
+    (balance.chainId !== undefined
+      ? multipliers.get(`${balance.chainId}:${address}`)
+      : undefined) ??
+    multipliers.get(address) ??
+    1
+  );
+};
+
+export const recordWeighting = (
+  weighting: WeightingStrategy,
+  tokenMultipliers?: Record<string, number>,
+  prices?: TokenPrice[]
+): WeightingRecord => ({
+  name: weighting.name,
+  params: weighting.params,
+  tokenMultipliers,
+  quoteToken: prices?.[0]?.quoteToken,
+});
+
+// e.g. capped {"cap":1000}, for the winners CSV.
+export const describeWeighting = (record: WeightingRecord) =>
+  [
+    record.name,
+    record.params && JSON.stringify(record.params),
+    record.tokenMultipliers &&
+      `tokenMultipliers ${JSON.stringify(record.tokenMultipliers)}`,
+    record.quoteToken && `valued in ${record.quoteToken}`,
+  ]
+    .filter(Boolean)
+    .join(" ");